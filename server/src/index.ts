@@ -0,0 +1,99 @@
+import http from "node:http";
+import path from "node:path";
+import express from "express";
+import { ExpressPeerServer } from "peer";
+import { WebSocketServer } from "ws";
+import { createSignalingServer } from "./signaling.js";
+import { createTurnCredentials } from "./turn.js";
+
+// Everything is configured through the environment so the same build can be
+// dropped onto any LAN box
+const PORT = Number(process.env.PORT || 9000);
+const HOST = process.env.HOST || "0.0.0.0";
+const PEER_PATH = process.env.PEER_PATH || "/peerjs";
+const SIGNALING_PATH = process.env.SIGNALING_PATH || "/signal";
+const STATIC_DIR = process.env.STATIC_DIR;
+const TURN_SECRET = process.env.TURN_SECRET;
+const TURN_URLS = (process.env.TURN_URLS || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+const TURN_TTL = Number(process.env.TURN_TTL || 3600);
+
+const app = express();
+const server = http.createServer(app);
+
+// Both the PeerServer and the room signaling speak WebSocket on the same
+// port, so upgrades are routed by path instead of letting each server grab
+// every upgrade request
+const upgradeRoutes = new Map<string, WebSocketServer>();
+
+const peerServer = ExpressPeerServer(server, {
+  path: "/",
+  allow_discovery: false,
+  createWebSocketServer: (options) => {
+    const wss = new WebSocketServer({ noServer: true });
+    upgradeRoutes.set(options.path!, wss);
+    return wss;
+  },
+});
+
+peerServer.on("connection", (client) => {
+  console.log(`Peer connected: ${client.getId()}`);
+});
+
+peerServer.on("disconnect", (client) => {
+  console.log(`Peer disconnected: ${client.getId()}`);
+});
+
+app.use(PEER_PATH, peerServer);
+
+upgradeRoutes.set(SIGNALING_PATH, createSignalingServer());
+
+server.on("upgrade", (request, socket, head) => {
+  const { pathname } = new URL(request.url || "/", "http://localhost");
+  const wss = upgradeRoutes.get(pathname);
+
+  if (!wss) {
+    socket.destroy();
+    return;
+  }
+
+  wss.handleUpgrade(request, socket, head, (ws) => {
+    wss.emit("connection", ws, request);
+  });
+});
+
+app.get("/health", (_req, res) => {
+  res.json({ status: "ok" });
+});
+
+// Time-limited credentials for a TURN server sharing TURN_SECRET
+if (TURN_SECRET) {
+  app.get("/turn-credentials", (req, res) => {
+    const origin = req.headers.origin;
+    if (origin) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Access-Control-Allow-Credentials", "true");
+      res.setHeader("Vary", "Origin");
+    }
+    res.setHeader("Cache-Control", "no-store");
+    res.json(createTurnCredentials(TURN_SECRET, TURN_URLS, TURN_TTL));
+  });
+}
+
+// Optionally serve the built client so a deployment is a single process
+if (STATIC_DIR) {
+  const root = path.resolve(STATIC_DIR);
+  app.use(express.static(root));
+  app.get("*", (_req, res) => {
+    res.sendFile(path.join(root, "index.html"));
+  });
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`PeerServer listening on http://${HOST}:${PORT}${PEER_PATH}`);
+  console.log(`Room signaling listening on ws://${HOST}:${PORT}${SIGNALING_PATH}`);
+  if (TURN_SECRET) console.log(`TURN credentials served at /turn-credentials`);
+  if (STATIC_DIR) console.log(`Serving client from ${path.resolve(STATIC_DIR)}`);
+});
@@ -0,0 +1,73 @@
+// Room membership bookkeeping for the signaling endpoint. Kept free of any
+// socket code so it can be reasoned about (and reused) on its own.
+
+export type SignalingAction = "join" | "announce" | "leave";
+
+export interface SignalingEvent {
+  action: SignalingAction;
+  peerId: string;
+}
+
+export interface RoomMember<T> {
+  peerId: string;
+  connection: T;
+}
+
+export class RoomRegistry<T> {
+  private rooms = new Map<string, Map<string, RoomMember<T>>>();
+
+  /** Add a member and return everybody who was already in the room */
+  join(roomId: string, peerId: string, connection: T): RoomMember<T>[] {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = new Map();
+      this.rooms.set(roomId, room);
+    }
+
+    const existing = [...room.values()].filter((m) => m.peerId !== peerId);
+    room.set(peerId, { peerId, connection });
+    return existing;
+  }
+
+  /**
+   * Remove a member, returns false if it was not in the room. Given a
+   * connection, only removes the member while it is still on that connection,
+   * so a stale one can't remove a peer that joined again elsewhere.
+   */
+  leave(roomId: string, peerId: string, connection?: T): boolean {
+    const room = this.rooms.get(roomId);
+    const member = room?.get(peerId);
+    if (!room || !member) return false;
+    if (connection !== undefined && member.connection !== connection) return false;
+
+    room.delete(peerId);
+
+    if (room.size === 0) {
+      this.rooms.delete(roomId);
+    }
+    return true;
+  }
+
+  /** All members of a room except `exceptPeerId` */
+  others(roomId: string, exceptPeerId: string): RoomMember<T>[] {
+    const room = this.rooms.get(roomId);
+    if (!room) return [];
+    return [...room.values()].filter((m) => m.peerId !== exceptPeerId);
+  }
+
+  get(roomId: string, peerId: string): RoomMember<T> | undefined {
+    return this.rooms.get(roomId)?.get(peerId);
+  }
+
+  has(roomId: string, peerId: string): boolean {
+    return this.rooms.get(roomId)?.has(peerId) ?? false;
+  }
+
+  size(roomId: string): number {
+    return this.rooms.get(roomId)?.size ?? 0;
+  }
+
+  get roomCount(): number {
+    return this.rooms.size;
+  }
+}
@@ -0,0 +1,127 @@
+import WebSocket, { WebSocketServer } from "ws";
+import { RoomRegistry, SignalingEvent } from "./rooms.js";
+
+// Messages a client sends over the signaling socket
+interface ClientMessage {
+  type: "join" | "announce" | "leave";
+  roomId?: string;
+  peerId?: string;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// How often sockets are pinged; one that hasn't answered the previous ping
+// by the next is dropped
+const HEARTBEAT_INTERVAL = 30000;
+
+// Close code for a socket whose peer joined again on another socket
+const CLOSE_REPLACED = 4000;
+
+function send(socket: WebSocket, event: SignalingEvent) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+/**
+ * Room membership signaling. Each socket joins exactly one room; the server
+ * relays join/announce/leave events between the members of that room and
+ * emits "leave" on their behalf when a socket drops or stops answering pings.
+ */
+export function createSignalingServer(
+  rooms = new RoomRegistry<WebSocket>(),
+  heartbeatInterval = HEARTBEAT_INTERVAL,
+) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  // Half-open sockets never close on their own, terminating them runs the
+  // usual leave
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, heartbeatInterval);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  wss.on("connection", (socket) => {
+    let roomId: string | null = null;
+    let peerId: string | null = null;
+
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    const broadcast = (event: SignalingEvent) => {
+      if (!roomId) return;
+      rooms.others(roomId, event.peerId).forEach((member) => {
+        send(member.connection, event);
+      });
+    };
+
+    const leave = () => {
+      if (roomId && peerId && rooms.leave(roomId, peerId, socket)) {
+        broadcast({ action: "leave", peerId });
+      }
+      roomId = null;
+      peerId = null;
+    };
+
+    socket.on("message", (raw) => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      switch (message.type) {
+        case "join": {
+          if (
+            !message.roomId ||
+            !message.peerId ||
+            !ID_PATTERN.test(message.roomId) ||
+            !ID_PATTERN.test(message.peerId)
+          ) {
+            socket.close(1008, "Invalid room or peer ID");
+            return;
+          }
+
+          // A socket may move rooms, but only belongs to one at a time
+          leave();
+          roomId = message.roomId;
+          peerId = message.peerId;
+
+          // The peer came back on a new socket, the old one is stale
+          const previous = rooms.get(roomId, peerId);
+          if (previous && previous.connection !== socket) {
+            previous.connection.close(CLOSE_REPLACED, "Joined again on another connection");
+          }
+
+          // Tell the newcomer about everybody already in the room
+          const existing = rooms.join(roomId, peerId, socket);
+          existing.forEach((member) => {
+            send(socket, { action: "announce", peerId: member.peerId });
+          });
+          broadcast({ action: "join", peerId });
+          break;
+        }
+        case "announce":
+          if (peerId) broadcast({ action: "announce", peerId });
+          break;
+        case "leave":
+          leave();
+          break;
+      }
+    });
+
+    socket.on("close", leave);
+    socket.on("error", leave);
+  });
+
+  return wss;
+}
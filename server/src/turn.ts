@@ -0,0 +1,30 @@
+import crypto from "node:crypto";
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  ttl: number;
+  urls: string[];
+}
+
+/**
+ * Time-limited TURN credentials in the format of the TURN REST API that
+ * coturn implements with `use-auth-secret`: the username carries the expiry
+ * timestamp and the credential is an HMAC of it with the shared secret.
+ */
+export function createTurnCredentials(
+  secret: string,
+  urls: string[],
+  ttl = 3600,
+  user = "peermeet",
+  now = Date.now(),
+): TurnCredentials {
+  const expiry = Math.floor(now / 1000) + ttl;
+  const username = `${expiry}:${user}`;
+  const credential = crypto
+    .createHmac("sha1", secret)
+    .update(username)
+    .digest("base64");
+
+  return { username, credential, ttl, urls };
+}
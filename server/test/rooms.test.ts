@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RoomRegistry } from "../src/rooms.js";
+
+describe("RoomRegistry", () => {
+  it("returns the members already in the room on join", () => {
+    const rooms = new RoomRegistry<string>();
+
+    assert.deepEqual(rooms.join("room", "a", "socket-a"), []);
+    assert.deepEqual(rooms.join("room", "b", "socket-b"), [
+      { peerId: "a", connection: "socket-a" },
+    ]);
+    assert.equal(rooms.size("room"), 2);
+  });
+
+  it("replaces the connection of a peer that joins again", () => {
+    const rooms = new RoomRegistry<string>();
+    rooms.join("room", "a", "old");
+
+    assert.deepEqual(rooms.join("room", "a", "new"), []);
+    assert.equal(rooms.size("room"), 1);
+    rooms.join("room", "b", "socket-b");
+    assert.deepEqual(rooms.others("room", "b"), [{ peerId: "a", connection: "new" }]);
+  });
+
+  it("keeps rooms apart", () => {
+    const rooms = new RoomRegistry<string>();
+    rooms.join("one", "a", "socket-a");
+
+    assert.deepEqual(rooms.join("two", "b", "socket-b"), []);
+    assert.equal(rooms.has("one", "b"), false);
+    assert.equal(rooms.roomCount, 2);
+  });
+
+  it("lists everyone but the given peer", () => {
+    const rooms = new RoomRegistry<string>();
+    rooms.join("room", "a", "socket-a");
+    rooms.join("room", "b", "socket-b");
+    rooms.join("room", "c", "socket-c");
+
+    assert.deepEqual(
+      rooms.others("room", "b").map((member) => member.peerId),
+      ["a", "c"],
+    );
+    assert.deepEqual(rooms.others("missing", "a"), []);
+  });
+
+  it("drops empty rooms on leave", () => {
+    const rooms = new RoomRegistry<string>();
+    rooms.join("room", "a", "socket-a");
+
+    assert.equal(rooms.leave("room", "a"), true);
+    assert.equal(rooms.has("room", "a"), false);
+    assert.equal(rooms.roomCount, 0);
+  });
+
+  it("only removes a member through the connection it is on", () => {
+    const rooms = new RoomRegistry<string>();
+    rooms.join("room", "a", "old");
+    rooms.join("room", "a", "new");
+
+    assert.equal(rooms.leave("room", "a", "old"), false);
+    assert.equal(rooms.get("room", "a")?.connection, "new");
+    assert.equal(rooms.leave("room", "a", "new"), true);
+    assert.equal(rooms.has("room", "a"), false);
+  });
+
+  it("reports leaving a room one isn't in", () => {
+    const rooms = new RoomRegistry<string>();
+    rooms.join("room", "a", "socket-a");
+
+    assert.equal(rooms.leave("room", "b"), false);
+    assert.equal(rooms.leave("missing", "a"), false);
+    assert.equal(rooms.size("room"), 1);
+  });
+});
@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import WebSocket from "ws";
+import type { SignalingEvent } from "../src/rooms.js";
+import { RoomRegistry } from "../src/rooms.js";
+import { createSignalingServer } from "../src/signaling.js";
+
+// Short enough that the heartbeat test doesn't wait long
+const HEARTBEAT_INTERVAL = 100;
+
+// A signaling socket that queues the events it receives so tests can await
+// them in order
+class TestClient {
+  private readonly socket: WebSocket;
+  private readonly events: SignalingEvent[] = [];
+  private waiting: ((event: SignalingEvent) => void) | null = null;
+
+  constructor(url: string, options?: WebSocket.ClientOptions) {
+    this.socket = new WebSocket(url, options);
+    this.socket.on("message", (raw) => {
+      const event = JSON.parse(raw.toString()) as SignalingEvent;
+      if (this.waiting) {
+        const resolve = this.waiting;
+        this.waiting = null;
+        resolve(event);
+      } else {
+        this.events.push(event);
+      }
+    });
+  }
+
+  opened() {
+    return new Promise<void>((resolve, reject) => {
+      this.socket.once("open", () => resolve());
+      this.socket.once("error", reject);
+    });
+  }
+
+  send(message: object) {
+    this.sendRaw(JSON.stringify(message));
+  }
+
+  sendRaw(data: string) {
+    this.socket.send(data);
+  }
+
+  next(timeout = 1000) {
+    const queued = this.events.shift();
+    if (queued) return Promise.resolve(queued);
+
+    return new Promise<SignalingEvent>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = null;
+        reject(new Error("No signaling event arrived"));
+      }, timeout);
+      this.waiting = (event) => {
+        clearTimeout(timer);
+        resolve(event);
+      };
+    });
+  }
+
+  /** Nothing else arrives within `wait` milliseconds */
+  async idle(wait = 100) {
+    await new Promise((resolve) => setTimeout(resolve, wait));
+    assert.deepEqual(this.events, []);
+  }
+
+  closed() {
+    return new Promise<number>((resolve) => this.socket.once("close", (code) => resolve(code)));
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  // Drop the connection without a closing handshake, like a crashed tab
+  drop() {
+    this.socket.terminate();
+  }
+}
+
+describe("signaling server", () => {
+  const server = http.createServer();
+  const rooms = new RoomRegistry<WebSocket>();
+  const wss = createSignalingServer(rooms, HEARTBEAT_INTERVAL);
+  const clients: TestClient[] = [];
+  let url = "";
+
+  before(async () => {
+    server.on("upgrade", (request, socket, head) => {
+      wss.handleUpgrade(request, socket, head, (ws) => wss.emit("connection", ws, request));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    clients.forEach((client) => client.drop());
+    wss.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const connect = async (options?: WebSocket.ClientOptions) => {
+    const client = new TestClient(url, options);
+    clients.push(client);
+    await client.opened();
+    return client;
+  };
+
+  // Join and wait until the server has registered us, which it confirms by
+  // relaying the join to `witness`
+  const join = async (client: TestClient, roomId: string, peerId: string, witness?: TestClient) => {
+    client.send({ type: "join", roomId, peerId });
+    if (witness) assert.deepEqual(await witness.next(), { action: "join", peerId });
+  };
+
+  it("announces existing members to a newcomer and the newcomer to them", async () => {
+    const alice = await connect();
+    const bob = await connect();
+    await join(alice, "join-room", "alice");
+    await join(bob, "join-room", "bob", alice);
+
+    assert.deepEqual(await bob.next(), { action: "announce", peerId: "alice" });
+    await alice.idle();
+  });
+
+  it("relays announcements to the rest of the room only", async () => {
+    const alice = await connect();
+    const bob = await connect();
+    const outsider = await connect();
+    await join(alice, "announce-room", "alice");
+    await join(bob, "announce-room", "bob", alice);
+    await bob.next();
+    await join(outsider, "elsewhere", "outsider");
+
+    bob.send({ type: "announce" });
+    assert.deepEqual(await alice.next(), { action: "announce", peerId: "bob" });
+    await bob.idle();
+    await outsider.idle();
+  });
+
+  it("relays an explicit leave", async () => {
+    const alice = await connect();
+    const bob = await connect();
+    await join(alice, "leave-room", "alice");
+    await join(bob, "leave-room", "bob", alice);
+    await bob.next();
+
+    bob.send({ type: "leave" });
+    assert.deepEqual(await alice.next(), { action: "leave", peerId: "bob" });
+
+    // Already gone, the socket closing reports nothing more
+    bob.close();
+    await alice.idle();
+  });
+
+  it("reports a dropped socket as a leave", async () => {
+    const alice = await connect();
+    const bob = await connect();
+    await join(alice, "drop-room", "alice");
+    await join(bob, "drop-room", "bob", alice);
+    await bob.next();
+
+    bob.drop();
+    assert.deepEqual(await alice.next(), { action: "leave", peerId: "bob" });
+  });
+
+  it("leaves the old room when a socket joins another", async () => {
+    const alice = await connect();
+    const bob = await connect();
+    await join(alice, "old-room", "alice");
+    await join(bob, "old-room", "bob", alice);
+    await bob.next();
+
+    bob.send({ type: "join", roomId: "new-room", peerId: "bob" });
+    assert.deepEqual(await alice.next(), { action: "leave", peerId: "bob" });
+  });
+
+  it("keeps a peer that joined again when its old socket closes", async () => {
+    const alice = await connect();
+    const oldBob = await connect();
+    await join(alice, "rejoin-room", "alice");
+    await join(oldBob, "rejoin-room", "bob", alice);
+    await oldBob.next();
+
+    const newBob = await connect();
+    const oldClosed = oldBob.closed();
+    await join(newBob, "rejoin-room", "bob", alice);
+    assert.deepEqual(await newBob.next(), { action: "announce", peerId: "alice" });
+
+    // The server closes the superseded socket without reporting a leave
+    assert.equal(await oldClosed, 4000);
+    await alice.idle();
+    assert.equal(rooms.has("rejoin-room", "bob"), true);
+
+    newBob.send({ type: "announce" });
+    assert.deepEqual(await alice.next(), { action: "announce", peerId: "bob" });
+  });
+
+  it("drops sockets that stop answering pings", async () => {
+    const alice = await connect();
+    const bob = await connect({ autoPong: false });
+    await join(alice, "ping-room", "alice");
+    await join(bob, "ping-room", "bob", alice);
+
+    assert.deepEqual(await alice.next(), { action: "leave", peerId: "bob" });
+    await alice.idle(HEARTBEAT_INTERVAL * 3);
+  });
+
+  it("closes sockets that join with an invalid ID", async () => {
+    const client = await connect();
+    const closed = client.closed();
+
+    client.send({ type: "join", roomId: "room with spaces", peerId: "alice" });
+    assert.equal(await closed, 1008);
+  });
+
+  it("ignores messages that aren't JSON", async () => {
+    const alice = await connect();
+    const bob = await connect();
+    await join(alice, "json-room", "alice");
+
+    bob.send({ type: "announce" });
+    bob.sendRaw("not json");
+    await join(bob, "json-room", "bob", alice);
+    assert.deepEqual(await bob.next(), { action: "announce", peerId: "alice" });
+  });
+});
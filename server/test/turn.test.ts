@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { describe, it } from "node:test";
+import { createTurnCredentials } from "../src/turn.js";
+
+const NOW = Date.UTC(2024, 0, 1, 12, 0, 0, 500);
+const URLS = ["turn:turn.example.com:3478"];
+
+describe("createTurnCredentials", () => {
+  it("puts the expiry in seconds and the user in the username", () => {
+    const { username, ttl, urls } = createTurnCredentials("secret", URLS, 600, "alice", NOW);
+
+    assert.equal(username, `${Math.floor(NOW / 1000) + 600}:alice`);
+    assert.equal(ttl, 600);
+    assert.deepEqual(urls, URLS);
+  });
+
+  it("defaults to an hour for the peermeet user", () => {
+    const { username, ttl } = createTurnCredentials("secret", URLS, undefined, undefined, NOW);
+
+    assert.equal(username, `${Math.floor(NOW / 1000) + 3600}:peermeet`);
+    assert.equal(ttl, 3600);
+  });
+
+  it("signs the username with HMAC-SHA1 of the secret, base64 encoded", () => {
+    const { username, credential } = createTurnCredentials("secret", URLS, 600, "alice", NOW);
+    const expected = crypto.createHmac("sha1", "secret").update(username).digest("base64");
+
+    assert.equal(credential, expected);
+  });
+
+  it("issues different credentials for a different secret", () => {
+    const first = createTurnCredentials("one", URLS, 600, "alice", NOW);
+    const second = createTurnCredentials("two", URLS, 600, "alice", NOW);
+
+    assert.equal(first.username, second.username);
+    assert.notEqual(first.credential, second.credential);
+  });
+});
@@ -3,6 +3,7 @@ import { useRoutes, Routes, Route } from "react-router-dom";
 import Home from "./components/home";
 import VideoRoom from "./components/VideoRoom";
 import routes from "./lib/tempo-routes";
+import { Toaster } from "./components/ui/toaster";
 
 function App() {
   return (
@@ -16,6 +17,7 @@ function App() {
           )}
         </Routes>
         {import.meta.env.VITE_TEMPO === "true" && useRoutes(routes)}
+        <Toaster />
       </>
     </Suspense>
   );
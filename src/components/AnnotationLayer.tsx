@@ -0,0 +1,47 @@
+import React, { useEffect, useRef } from "react";
+import { AnnotationDocument, renderAnnotations } from "@/lib/annotations";
+import { SurfaceRect, surfaceStyle } from "@/lib/surface";
+
+interface AnnotationLayerProps {
+  doc: AnnotationDocument;
+  /** The shared picture within the parent, annotations are relative to it */
+  surface?: SurfaceRect | null;
+}
+
+// Read-only canvas that draws annotations over whatever it is placed on,
+// redrawn from the vectors whenever they or the layer's size change
+const AnnotationLayer = ({ doc, surface }: AnnotationLayerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const redraw = () => {
+      const ctx = canvas.getContext("2d");
+      if (ctx) renderAnnotations(ctx, doc.items);
+    };
+
+    // Match the canvas resolution to its size on screen
+    const observer = new ResizeObserver(() => {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      redraw();
+    });
+    observer.observe(canvas);
+
+    const unsubscribe = doc.subscribe(redraw);
+    redraw();
+
+    return () => {
+      observer.disconnect();
+      unsubscribe();
+    };
+  }, [doc]);
+
+  return (
+    <canvas ref={canvasRef} className="pointer-events-none" style={surfaceStyle(surface)} />
+  );
+};
+
+export default AnnotationLayer;
@@ -0,0 +1,74 @@
+import React from "react";
+import { readableTextColor, TEXT_FONT, TEXT_LINE_HEIGHT } from "@/lib/annotations";
+
+export interface TextEditorState {
+  /** ID of the annotation being written or re-edited */
+  id: string;
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  /** Font size as a fraction of the surface height */
+  size: number;
+  background: boolean;
+}
+
+interface AnnotationTextEditorProps {
+  editor: TextEditorState;
+  /** Height of the annotated surface in pixels, to size the font */
+  surfaceHeight: number;
+  onChange: (text: string) => void;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+// Text box typed into in place, laid out like the text annotation it becomes:
+// the first line's baseline sits on the point that was clicked
+const AnnotationTextEditor = ({
+  editor,
+  surfaceHeight,
+  onChange,
+  onCommit,
+  onCancel,
+}: AnnotationTextEditorProps) => {
+  const fontSize = editor.size * surfaceHeight;
+  const lines = editor.text.split("\n");
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter starts a new line, Ctrl/Cmd+Enter places the text
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onCommit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <textarea
+      autoFocus
+      value={editor.text}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      placeholder="Type here"
+      rows={lines.length}
+      cols={Math.max(8, ...lines.map((line) => line.length + 1))}
+      wrap="off"
+      className="absolute resize-none overflow-hidden rounded-md border border-dashed border-primary outline-none placeholder:opacity-60"
+      style={{
+        left: `${editor.x * 100}%`,
+        top: `calc(${editor.y * 100}% - ${fontSize}px)`,
+        fontFamily: TEXT_FONT,
+        fontSize,
+        lineHeight: TEXT_LINE_HEIGHT,
+        color: editor.background ? readableTextColor(editor.color) : editor.color,
+        background: editor.background ? editor.color : "transparent",
+        padding: 0,
+        zIndex: 55,
+      }}
+    />
+  );
+};
+
+export default AnnotationTextEditor;
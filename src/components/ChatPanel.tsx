@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Lock, Send, Users, X } from "lucide-react";
+import { ChatEntry, linkify, MAX_CHAT_LENGTH } from "@/lib/chat";
+
+/** Someone we can message privately, or have before */
+export interface ChatContact {
+  peerId: string;
+  name: string;
+  unread: number;
+  /** Still in the call */
+  isPresent: boolean;
+}
+
+interface ChatPanelProps {
+  /** Messages of the open conversation */
+  messages: ChatEntry[];
+  /** Our peer ID, our own messages are shown on the right */
+  localPeerId?: string;
+  contacts?: ChatContact[];
+  /** Peer of the open private conversation, null for the room chat */
+  activeThread?: string | null;
+  roomUnread?: number;
+  onThreadChange?: (peerId: string | null) => void;
+  onSend: (text: string) => void;
+  onClose?: () => void;
+}
+
+// Select values, peer IDs are prefixed so none can pass for the room
+const ROOM_VALUE = "room";
+const PEER_PREFIX = "peer:";
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Message text with web addresses turned into links that open in a new tab
+const MessageText = ({ text }: { text: string }) => (
+  <>
+    {linkify(text).map((segment, i) =>
+      segment.href ? (
+        <a
+          key={i}
+          href={segment.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="underline break-all"
+        >
+          {segment.text}
+        </a>
+      ) : (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      ),
+    )}
+  </>
+);
+
+const UnreadCount = ({ count }: { count: number }) =>
+  count > 0 ? (
+    <span className="ml-2 rounded-full bg-destructive px-1.5 text-xs text-destructive-foreground">
+      {count > 99 ? "99+" : count}
+    </span>
+  ) : null;
+
+// Side panel with the room chat and private conversations. Enter sends,
+// Shift+Enter starts a new line.
+const ChatPanel = ({
+  messages,
+  localPeerId,
+  contacts = [],
+  activeThread = null,
+  roomUnread = 0,
+  onThreadChange = () => {},
+  onSend,
+  onClose = () => {},
+}: ChatPanelProps) => {
+  const [draft, setDraft] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const contact = activeThread ? contacts.find((c) => c.peerId === activeThread) : null;
+  const isPrivate = activeThread !== null;
+  const canSend = !isPrivate || Boolean(contact?.isPresent);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length, activeThread]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text || !canSend) return;
+    onSend(text);
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  const bubbleClass = (isOwn: boolean) => {
+    if (isPrivate) {
+      return isOwn
+        ? "bg-amber-500 text-white"
+        : "bg-amber-100 text-amber-950 dark:bg-amber-950/60 dark:text-amber-50";
+    }
+    return isOwn ? "bg-primary text-primary-foreground" : "bg-muted text-foreground";
+  };
+
+  return (
+    // Kept clear of the control panel fixed at the bottom of the screen
+    <aside className="flex w-80 shrink-0 flex-col border-l bg-background pb-20">
+      <div className="flex items-center justify-between border-b p-3">
+        <h3 className="font-semibold text-foreground">Chat</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onClose}
+          aria-label="Close chat"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="border-b p-3">
+        <Select
+          value={activeThread ? `${PEER_PREFIX}${activeThread}` : ROOM_VALUE}
+          onValueChange={(value) =>
+            onThreadChange(value === ROOM_VALUE ? null : value.slice(PEER_PREFIX.length))
+          }
+        >
+          <SelectTrigger aria-label="Conversation">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ROOM_VALUE}>
+              <span className="flex items-center">
+                <Users className="h-4 w-4 mr-2" />
+                Everyone
+                <UnreadCount count={roomUnread} />
+              </span>
+            </SelectItem>
+            {contacts.map((c) => (
+              <SelectItem key={c.peerId} value={`${PEER_PREFIX}${c.peerId}`}>
+                <span className="flex items-center">
+                  <Lock className="h-4 w-4 mr-2 text-amber-500" />
+                  {c.name}
+                  {!c.isPresent && " (left)"}
+                  <UnreadCount count={c.unread} />
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isPrivate && (
+        <div className="flex items-start gap-2 border-b border-amber-200 bg-amber-50 p-3 text-xs text-amber-900 dark:border-amber-900 dark:bg-amber-950/40 dark:text-amber-100">
+          <Lock className="mt-0.5 h-3 w-3 shrink-0" />
+          <span>
+            Private conversation with {contact?.name || "this participant"}. Only the two of you
+            can see these messages.
+          </span>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-3 p-3">
+          {messages.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground">
+              {isPrivate
+                ? "No private messages yet."
+                : "No messages yet. Messages are seen by everyone in the call."}
+            </p>
+          )}
+          {messages.map((message) => {
+            const isOwn = message.senderId === localPeerId;
+            return (
+              <div
+                key={message.id}
+                className={`flex flex-col ${isOwn ? "items-end" : "items-start"}`}
+              >
+                <div className="mb-0.5 flex items-baseline gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {isOwn ? "You" : message.senderName}
+                  </span>
+                  {isPrivate && <Lock className="h-3 w-3 self-center text-amber-500" />}
+                  <time dateTime={new Date(message.sentAt).toISOString()}>
+                    {formatTime(message.sentAt)}
+                  </time>
+                </div>
+                <div
+                  className={`max-w-[85%] whitespace-pre-wrap break-words rounded-lg px-3 py-2 text-sm ${bubbleClass(isOwn)}`}
+                >
+                  <MessageText text={message.text} />
+                </div>
+              </div>
+            );
+          })}
+          <div ref={endRef} />
+        </div>
+      </ScrollArea>
+
+      <div className="flex items-end gap-2 border-t p-3">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={
+            !isPrivate
+              ? "Message everyone"
+              : canSend
+                ? `Message ${contact?.name} privately`
+                : `${contact?.name || "They"} left the call`
+          }
+          disabled={!canSend}
+          maxLength={MAX_CHAT_LENGTH}
+          rows={1}
+          className={`min-h-[40px] max-h-32 resize-none ${isPrivate ? "border-amber-400 focus-visible:ring-amber-400" : ""}`}
+        />
+        <Button
+          size="icon"
+          onClick={send}
+          disabled={!draft.trim() || !canSend}
+          aria-label="Send"
+          className={isPrivate ? "bg-amber-500 text-white hover:bg-amber-600" : ""}
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </aside>
+  );
+};
+
+export default ChatPanel;
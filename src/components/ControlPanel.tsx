@@ -34,6 +34,9 @@ import {
   Users,
   Image,
   Brush,
+  Presentation,
+  MessageSquare,
+  Paperclip,
 } from "lucide-react";
 
 interface ControlPanelProps {
@@ -41,10 +44,21 @@ interface ControlPanelProps {
   isVideoEnabled?: boolean;
   isVideoLoading?: boolean;
   isScreenSharing?: boolean;
+  /** Sharing our screen, or viewing a share we may annotate */
+  canAnnotate?: boolean;
   onToggleAudio?: () => void;
   onToggleVideo?: () => void;
   onToggleScreenShare?: () => void;
   onOpenAnnotationTools?: () => void;
+  isWhiteboardOpen?: boolean;
+  onToggleWhiteboard?: () => void;
+  isChatOpen?: boolean;
+  /** Chat messages that arrived while the chat was closed */
+  unreadChatCount?: number;
+  onToggleChat?: () => void;
+  /** Files offered to us and not yet accepted or declined */
+  pendingFileCount?: number;
+  onOpenFiles?: () => void;
   onEndCall?: () => void;
   roomId?: string;
   participantCount?: number;
@@ -55,10 +69,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   isVideoEnabled = true,
   isVideoLoading = false,
   isScreenSharing = false,
+  canAnnotate = isScreenSharing,
   onToggleAudio = () => {},
   onToggleVideo = () => {},
   onToggleScreenShare = () => {},
   onOpenAnnotationTools = () => {},
+  isWhiteboardOpen = false,
+  onToggleWhiteboard = () => {},
+  isChatOpen = false,
+  unreadChatCount = 0,
+  onToggleChat = () => {},
+  pendingFileCount = 0,
+  onOpenFiles = () => {},
   onEndCall = () => {},
   roomId = "ABC123",
   participantCount = 1,
@@ -151,7 +173,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </Tooltip>
         </TooltipProvider>
 
-        {isScreenSharing && (
+        {canAnnotate && (
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -169,6 +191,74 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </TooltipProvider>
         )}
 
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                className={`rounded-full ${isWhiteboardOpen ? "bg-primary text-primary-foreground hover:bg-primary/90" : ""}`}
+                onClick={onToggleWhiteboard}
+              >
+                <Presentation className="h-5 w-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              {isWhiteboardOpen ? "Close whiteboard" : "Whiteboard"}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                className={`relative rounded-full ${isChatOpen ? "bg-primary text-primary-foreground hover:bg-primary/90" : ""}`}
+                onClick={onToggleChat}
+              >
+                <MessageSquare className="h-5 w-5" />
+                {unreadChatCount > 0 && (
+                  <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+                    {unreadChatCount > 99 ? "99+" : unreadChatCount}
+                  </span>
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              {isChatOpen
+                ? "Close chat"
+                : unreadChatCount > 0
+                  ? `Chat (${unreadChatCount} unread)`
+                  : "Chat"}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                className="relative rounded-full"
+                onClick={onOpenFiles}
+              >
+                <Paperclip className="h-5 w-5" />
+                {pendingFileCount > 0 && (
+                  <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+                    {pendingFileCount > 99 ? "99+" : pendingFileCount}
+                  </span>
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              {pendingFileCount > 0 ? `Files (${pendingFileCount} waiting)` : "Send files"}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
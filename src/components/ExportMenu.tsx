@@ -0,0 +1,71 @@
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileJson, FileImage, Shapes, Upload } from "lucide-react";
+import { ExportFormat } from "@/lib/export";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  /** Contents of a JSON file picked to import */
+  onImport: (text: string) => void;
+  /** What the PNG shows, e.g. "with the shared screen" */
+  pngHint?: string;
+}
+
+// Save and load menu shared by the annotation toolbar and the whiteboard
+const ExportMenu = ({ onExport, onImport, pngHint }: ExportMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again later
+    e.target.value = "";
+    if (file) onImport(await file.text());
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" title="Export or import">
+            <Download className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => onExport("png")}>
+            <FileImage className="h-4 w-4 mr-2" />
+            PNG image{pngHint ? ` ${pngHint}` : ""}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExport("svg")}>
+            <Shapes className="h-4 w-4 mr-2" />
+            SVG drawing
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExport("json")}>
+            <FileJson className="h-4 w-4 mr-2" />
+            JSON, to import later
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import JSON…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFile}
+      />
+    </>
+  );
+};
+
+export default ExportMenu;
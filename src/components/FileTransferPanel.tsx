@@ -0,0 +1,249 @@
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Download, Lock, Upload, Users, X } from "lucide-react";
+import { FileTransfer, formatFileSize, TransferStatus } from "@/lib/fileTransfer";
+
+interface FileRecipient {
+  peerId: string;
+  name: string;
+}
+
+interface FileTransferPanelProps {
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  transfers: FileTransfer[];
+  /** Participants files can be sent to */
+  recipients?: FileRecipient[];
+  /** Send files to one peer, or everyone when `peerId` is null */
+  onSend: (files: File[], peerId: string | null) => void;
+  onAccept?: (id: string) => void;
+  onDecline?: (id: string) => void;
+  onCancel?: (id: string) => void;
+  onDismiss?: (id: string) => void;
+}
+
+// Select values, peer IDs are prefixed so none can pass for everyone
+const EVERYONE_VALUE = "everyone";
+const PEER_PREFIX = "peer:";
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  preparing: "Preparing…",
+  offered: "Waiting for them to accept",
+  incoming: "Wants to send you this file",
+  sending: "Sending",
+  receiving: "Receiving",
+  verifying: "Checking…",
+  interrupted: "Connection lost, resumes when they're back",
+  done: "Done",
+  declined: "Declined",
+  cancelled: "Cancelled",
+  failed: "Failed",
+};
+
+const FINISHED: TransferStatus[] = ["done", "declined", "cancelled", "failed"];
+
+// Side sheet for sending files to the call and picking up the ones sent to us.
+// Files are dropped onto it or picked with the file browser.
+const FileTransferPanel = ({
+  open = false,
+  onOpenChange = () => {},
+  transfers,
+  recipients = [],
+  onSend,
+  onAccept = () => {},
+  onDecline = () => {},
+  onCancel = () => {},
+  onDismiss = () => {},
+}: FileTransferPanelProps) => {
+  const [recipient, setRecipient] = useState(EVERYONE_VALUE);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const names = new Map(recipients.map((r) => [r.peerId, r.name]));
+  // Whoever we picked may have left since
+  const target =
+    recipient.startsWith(PEER_PREFIX) && names.has(recipient.slice(PEER_PREFIX.length))
+      ? recipient.slice(PEER_PREFIX.length)
+      : null;
+  const canSend = recipients.length > 0;
+
+  const send = (files: FileList | null) => {
+    if (!files || files.length === 0 || !canSend) return;
+    onSend([...files], target);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    send(e.dataTransfer.files);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    send(e.target.files);
+    // Let the same file be picked again later
+    e.target.value = "";
+  };
+
+  const renderTransfer = (transfer: FileTransfer) => {
+    const isFinished = FINISHED.includes(transfer.status);
+    const isOutgoing = transfer.direction === "outgoing";
+    const name = names.get(transfer.peerId) || "a participant who left";
+    const percent = transfer.size > 0 ? (transfer.transferred / transfer.size) * 100 : 100;
+
+    return (
+      <div key={transfer.id} className="space-y-2 rounded-md border p-3">
+        <div className="flex items-start gap-2">
+          {isOutgoing ? (
+            <ArrowUp className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          ) : (
+            <ArrowDown className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium text-foreground" title={transfer.name}>
+              {transfer.name}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatFileSize(transfer.size)} {isOutgoing ? "to" : "from"} {name}
+            </p>
+          </div>
+          {isFinished && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => onDismiss(transfer.id)}
+              aria-label="Dismiss"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+
+        {!isFinished && transfer.status !== "incoming" && <Progress value={percent} className="h-2" />}
+
+        <div className="flex items-center justify-between gap-2">
+          <span
+            className={`text-xs ${transfer.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}
+          >
+            {transfer.error || STATUS_LABELS[transfer.status]}
+            {(transfer.status === "sending" || transfer.status === "receiving") &&
+              ` ${formatFileSize(transfer.transferred)} of ${formatFileSize(transfer.size)}`}
+          </span>
+          <div className="flex shrink-0 gap-1">
+            {transfer.status === "incoming" && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => onDecline(transfer.id)}>
+                  Decline
+                </Button>
+                <Button size="sm" onClick={() => onAccept(transfer.id)}>
+                  Accept
+                </Button>
+              </>
+            )}
+            {!isFinished && transfer.status !== "incoming" && (
+              <Button variant="ghost" size="sm" onClick={() => onCancel(transfer.id)}>
+                Cancel
+              </Button>
+            )}
+            {transfer.url && (
+              <Button size="sm" asChild>
+                <a href={transfer.url} download={transfer.name}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Save
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Files</SheetTitle>
+          <SheetDescription>
+            Files go straight to the people in the call and are never uploaded anywhere.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Select value={target ? recipient : EVERYONE_VALUE} onValueChange={setRecipient}>
+          <SelectTrigger aria-label="Send to">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={EVERYONE_VALUE}>
+              <span className="flex items-center">
+                <Users className="h-4 w-4 mr-2" />
+                Everyone
+              </span>
+            </SelectItem>
+            {recipients.map((r) => (
+              <SelectItem key={r.peerId} value={`${PEER_PREFIX}${r.peerId}`}>
+                <span className="flex items-center">
+                  <Lock className="h-4 w-4 mr-2" />
+                  {r.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <button
+          type="button"
+          disabled={!canSend}
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = canSend ? "copy" : "none";
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center gap-2 rounded-md border-2 border-dashed p-6 text-sm text-muted-foreground transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${isDragging ? "border-primary bg-primary/10" : "hover:bg-muted"}`}
+        >
+          <Upload className="h-6 w-6" />
+          {canSend
+            ? `Drop files here or click to send to ${target ? names.get(target) : "everyone"}`
+            : "No one else is in the call yet"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFile}
+        />
+
+        <ScrollArea className="flex-1 -mx-2">
+          <div className="space-y-2 px-2">
+            {transfers.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground">No files yet.</p>
+            )}
+            {transfers.map(renderTransfer)}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default FileTransferPanel;
@@ -0,0 +1,332 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  Crown,
+  Lock,
+  MessageSquare,
+  Mic,
+  MicOff,
+  MonitorUp,
+  PhoneOff,
+  UserX,
+  Video,
+  VideoOff,
+} from "lucide-react";
+import type { ParticipantInfo } from "@/lib/protocol";
+
+export interface WaitingParticipant {
+  peerId: string;
+  userName: string;
+}
+
+interface ParticipantsPanelProps {
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  localParticipant: ParticipantInfo;
+  participants?: ParticipantInfo[];
+  isHost?: boolean;
+  isLocked?: boolean;
+  waitingParticipants?: WaitingParticipant[];
+  onAdmit?: (peerId: string) => void;
+  onDeny?: (peerId: string) => void;
+  onAdmitAll?: () => void;
+  onMute?: (peerId: string) => void;
+  onStopVideo?: (peerId: string) => void;
+  onRemove?: (peerId: string) => void;
+  onMakeHost?: (peerId: string) => void;
+  onToggleLock?: () => void;
+  onEndForAll?: () => void;
+  /** Open a private conversation with a participant */
+  onMessage?: (peerId: string) => void;
+}
+
+const ParticipantsPanel = ({
+  open = false,
+  onOpenChange = () => {},
+  localParticipant,
+  participants = [],
+  isHost = false,
+  isLocked = false,
+  waitingParticipants = [],
+  onAdmit = () => {},
+  onDeny = () => {},
+  onAdmitAll = () => {},
+  onMute = () => {},
+  onStopVideo = () => {},
+  onRemove = () => {},
+  onMakeHost = () => {},
+  onToggleLock = () => {},
+  onEndForAll = () => {},
+  onMessage,
+}: ParticipantsPanelProps) => {
+  const [confirmEnd, setConfirmEnd] = useState(false);
+  const [removeTarget, setRemoveTarget] = useState<ParticipantInfo | null>(null);
+  const [hostTarget, setHostTarget] = useState<ParticipantInfo | null>(null);
+
+  const renderActionButton = (
+    label: string,
+    icon: React.ReactNode,
+    onClick: () => void,
+    disabled = false
+  ) => (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onClick}
+            disabled={disabled}
+            aria-label={label}
+          >
+            {icon}
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>{label}</TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+
+  const renderParticipant = (participant: ParticipantInfo, isLocal: boolean) => (
+    <div
+      key={participant.peerId || "local"}
+      className="flex items-center justify-between rounded-md px-2 py-2 hover:bg-muted"
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <span className="truncate text-sm font-medium text-foreground">
+          {participant.userName}
+          {isLocal && " (You)"}
+        </span>
+        {participant.role === "host" && (
+          <Badge variant="secondary" className="flex items-center gap-1">
+            <Crown className="h-3 w-3" />
+            Host
+          </Badge>
+        )}
+        {participant.isScreenSharing && (
+          <MonitorUp className="h-4 w-4 text-primary" />
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 text-muted-foreground">
+        {participant.isMuted ? (
+          <MicOff className="h-4 w-4 text-destructive" />
+        ) : (
+          <Mic className="h-4 w-4" />
+        )}
+        {participant.isVideoOff ? (
+          <VideoOff className="h-4 w-4 text-destructive" />
+        ) : (
+          <Video className="h-4 w-4" />
+        )}
+
+        {onMessage && !isLocal && (
+          <div className="ml-2">
+            {renderActionButton(
+              "Message privately",
+              <MessageSquare className="h-4 w-4" />,
+              () => onMessage(participant.peerId)
+            )}
+          </div>
+        )}
+
+        {/* Moderation actions, only the host gets them */}
+        {isHost && !isLocal && (
+          <div className="flex items-center ml-2">
+            {renderActionButton(
+              "Ask to mute",
+              <MicOff className="h-4 w-4" />,
+              () => onMute(participant.peerId),
+              participant.isMuted
+            )}
+            {renderActionButton(
+              "Stop video",
+              <VideoOff className="h-4 w-4" />,
+              () => onStopVideo(participant.peerId),
+              participant.isVideoOff
+            )}
+            {renderActionButton(
+              "Make host",
+              <Crown className="h-4 w-4" />,
+              () => setHostTarget(participant)
+            )}
+            {renderActionButton(
+              "Remove from room",
+              <UserX className="h-4 w-4 text-destructive" />,
+              () => setRemoveTarget(participant)
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Participants ({participants.length + 1})</SheetTitle>
+          <SheetDescription>
+            {isHost
+              ? "You are the host of this meeting."
+              : "Everyone currently in this meeting."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2">
+          {/* People in the waiting room, only the host can let them in */}
+          {isHost && waitingParticipants.length > 0 && (
+            <div className="mb-4 space-y-1 px-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-foreground">
+                  Waiting ({waitingParticipants.length})
+                </span>
+                <Button variant="outline" size="sm" onClick={onAdmitAll}>
+                  Admit all
+                </Button>
+              </div>
+              {waitingParticipants.map((waiting) => (
+                <div
+                  key={waiting.peerId}
+                  className="flex items-center justify-between rounded-md px-2 py-2 bg-muted/50"
+                >
+                  <span className="truncate text-sm text-foreground">{waiting.userName}</span>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => onDeny(waiting.peerId)}>
+                      Deny
+                    </Button>
+                    <Button size="sm" onClick={() => onAdmit(waiting.peerId)}>
+                      Admit
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1 px-2">
+            {renderParticipant(localParticipant, true)}
+            {participants.map((participant) => renderParticipant(participant, false))}
+          </div>
+        </ScrollArea>
+
+        {isHost && (
+          <div className="space-y-4 border-t pt-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="lock-room" className="flex items-center gap-2 text-foreground">
+                <Lock className="h-4 w-4" />
+                Lock room to new joins
+              </Label>
+              <Switch id="lock-room" checked={isLocked} onCheckedChange={onToggleLock} />
+            </div>
+            <Button
+              variant="destructive"
+              className="w-full"
+              onClick={() => setConfirmEnd(true)}
+            >
+              <PhoneOff className="h-4 w-4 mr-2" />
+              End meeting for all
+            </Button>
+          </div>
+        )}
+
+        <AlertDialog open={confirmEnd} onOpenChange={setConfirmEnd}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>End meeting for everyone?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All participants will be disconnected and sent back to the home page.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onEndForAll}>End meeting</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog
+          open={removeTarget !== null}
+          onOpenChange={(isOpen) => !isOpen && setRemoveTarget(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove {removeTarget?.userName}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                They will be disconnected from the meeting and can't rejoin from this browser.
+                A private window or another browser gets them back in unless you lock the room.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (removeTarget) onRemove(removeTarget.peerId);
+                  setRemoveTarget(null);
+                }}
+              >
+                Remove
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog
+          open={hostTarget !== null}
+          onOpenChange={(isOpen) => !isOpen && setHostTarget(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Make {hostTarget?.userName} the host?</AlertDialogTitle>
+              <AlertDialogDescription>
+                They take over admitting people, locking the room and moderation.
+                You stay in the meeting as a participant.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (hostTarget) onMakeHost(hostTarget.peerId);
+                  setHostTarget(null);
+                }}
+              >
+                Make host
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ParticipantsPanel;
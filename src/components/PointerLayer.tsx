@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from "react";
+import { PointerPresence, renderPointers } from "@/lib/pointers";
+import { SurfaceRect, surfaceStyle } from "@/lib/surface";
+
+interface PointerLayerProps {
+  presence: PointerPresence;
+  /** The shared picture within the parent, pointers are relative to it */
+  surface?: SurfaceRect | null;
+}
+
+// Laser pointers and cursors over a screen share. Redraws when a pointer
+// moves and keeps animating while a laser trail fades out.
+const PointerLayer = ({ presence, surface }: PointerLayerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let frame: number | null = null;
+
+    const draw = () => {
+      frame = null;
+      const ctx = canvas.getContext("2d");
+      if (ctx && renderPointers(ctx, presence.items)) scheduleFrame();
+    };
+
+    const scheduleFrame = () => {
+      if (frame === null) frame = requestAnimationFrame(draw);
+    };
+
+    const observer = new ResizeObserver(() => {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      draw();
+    });
+    observer.observe(canvas);
+
+    const unsubscribe = presence.subscribe(scheduleFrame);
+
+    return () => {
+      observer.disconnect();
+      unsubscribe();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [presence]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="pointer-events-none"
+      style={{ ...surfaceStyle(surface), zIndex: 55 }}
+    />
+  );
+};
+
+export default PointerLayer;
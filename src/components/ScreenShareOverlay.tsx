@@ -7,6 +7,13 @@ import {
   PopoverContent,
 } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Toggle } from "@/components/ui/toggle";
+import AnnotationTextEditor, { TextEditorState } from "@/components/AnnotationTextEditor";
+import ExportMenu from "@/components/ExportMenu";
+import { toast } from "@/components/ui/use-toast";
+import { SurfaceRect, surfaceStyle } from "@/lib/surface";
+import { Label } from "@/components/ui/label";
 import {
   Tooltip,
   TooltipContent,
@@ -21,29 +28,146 @@ import {
   X,
   ChevronDown,
   Move,
+  Users,
+  Undo2,
+  Redo2,
+  MousePointer2,
+  Trash2,
+  Shapes,
+  ArrowUpRight,
+  Square,
+  Circle,
+  Minus,
+  Zap,
+  MousePointerClick,
 } from "lucide-react";
+import {
+  Annotation,
+  AnnotationDocument,
+  AnnotationHistory,
+  AnnotationHistoryEntry,
+  AnnotationOp,
+  AnnotationPoint,
+  constrainShapeEnd,
+  createAnnotationId,
+  drawSelection,
+  findAnnotationAt,
+  renderAnnotations,
+  ShapeAnnotation,
+  ShapeType,
+  StrokeAnnotation,
+  StrokeTool,
+  TextAnnotation,
+  translateAnnotation,
+} from "@/lib/annotations";
+import { exportAnnotations, ExportFormat, parseAnnotationsJson } from "@/lib/export";
 
 interface ScreenShareOverlayProps {
   isActive?: boolean;
   onClose?: () => void;
-  onAnnotationUpdate?: (annotations: any) => void;
+  /** The annotations of the share, local edits are applied to it directly */
+  doc: AnnotationDocument;
+  /** Edits to send to the other participants */
+  onAnnotationUpdate?: (op: AnnotationOp) => void;
+  /** Who we are, stamped on everything we draw */
+  author?: { id: string; name: string };
+  /** Viewers draw in a colour of their own instead of picking one */
+  fixedColor?: string;
+  /** Only the presenter may clear what others drew */
+  canClearAll?: boolean;
+  /** Presenter only: whether viewers may annotate the share */
+  viewersCanAnnotate?: boolean;
+  onViewersCanAnnotateChange?: (allowed: boolean) => void;
+  /** Presenter only: whether viewers' cursors are shown over the share */
+  showCursors?: boolean;
+  onShowCursorsChange?: (enabled: boolean) => void;
+  /** Where the laser pointer is, null once it left the share */
+  onLaserMove?: (position: AnnotationPoint | null) => void;
+  /** The shared picture within the overlay, annotations are relative to it */
+  surface?: SurfaceRect | null;
+  /** The shared video, exported PNGs show its current frame */
+  video?: HTMLVideoElement | null;
 }
 
+// How often a stroke in progress is streamed to viewers
+const STREAM_INTERVAL = 50;
+
+// The laser draws its own dot in place of the cursor
+const canvasCursors: Record<string, string> = {
+  select: "cursor-default",
+  laser: "cursor-none",
+};
+
+// Shapes dragged shorter than this, in pixels, are dropped
+const MIN_SHAPE_SIZE = 4;
+
+// Touches this soon after the pen was last seen are a resting palm
+const PALM_REJECTION_WINDOW = 1000;
+
+// The parts of a pointer event a point is read from
+type PointerSample = Pick<PointerEvent, "clientX" | "clientY" | "pointerType" | "pressure">;
+
+// What an erase, move or shape drag in progress has done so far, undone as one step
+type Gesture =
+  | { type: "erase"; removed: { annotation: Annotation; index: number }[] }
+  | { type: "move"; original: Annotation; start: AnnotationPoint; moved: Annotation | null }
+  | { type: "shape"; shape: ShapeAnnotation };
+
+const shapeTools: { value: ShapeType; label: string; icon: React.ElementType }[] = [
+  { value: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { value: "rectangle", label: "Rectangle", icon: Square },
+  { value: "ellipse", label: "Ellipse", icon: Circle },
+  { value: "line", label: "Line", icon: Minus },
+];
+
 const ScreenShareOverlay = ({
   isActive = true,
   onClose = () => {},
+  doc,
   onAnnotationUpdate = () => {},
+  author,
+  fixedColor,
+  canClearAll = true,
+  viewersCanAnnotate = false,
+  onViewersCanAnnotateChange,
+  showCursors = false,
+  onShowCursorsChange,
+  onLaserMove = () => {},
+  surface,
+  video = null,
 }: ScreenShareOverlayProps) => {
   const [activeTab, setActiveTab] = useState("draw");
-  const [color, setColor] = useState("#FF3B30");
+  const [pickedColor, setColor] = useState("#FF3B30");
+  const color = fixedColor || pickedColor;
   const [lineWidth, setLineWidth] = useState(3);
   const [isDrawing, setIsDrawing] = useState(false);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [shapeType, setShapeType] = useState<ShapeType>("arrow");
+  const [shapeFilled, setShapeFilled] = useState(false);
+  const [textBackground, setTextBackground] = useState(false);
+  const [textEditor, setTextEditor] = useState<TextEditorState | null>(null);
+  // Bumped to re-render the undo and redo buttons
+  const [, setHistoryVersion] = useState(0);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const toolbarRef = useRef<HTMLDivElement>(null);
 
+  // The stroke being drawn and the points viewers haven't received yet
+  const currentStrokeRef = useRef<StrokeAnnotation | null>(null);
+  const unsentPointsRef = useRef<AnnotationPoint[]>([]);
+  const unsentUpdateRef = useRef<Annotation | null>(null);
+  const lastStreamedRef = useRef(0);
+  const frameRef = useRef<number | null>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  const selectedIdRef = useRef<string | null>(null);
+  const textEditorRef = useRef<TextEditorState | null>(null);
+  // The pointer driving the current gesture, and when a pen was last near the screen
+  const activePointerRef = useRef<number | null>(null);
+  const lastPenRef = useRef(0);
+  const historyRef = useRef(new AnnotationHistory());
+
   const colors = [
     "#FF3B30", // Red
     "#FF9500", // Orange
@@ -55,131 +179,622 @@ const ScreenShareOverlay = ({
     "#FFFFFF", // White
   ];
 
+  const redraw = () => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    // Text being re-edited is shown by the editor instead
+    const editingId = textEditorRef.current?.id;
+    renderAnnotations(
+      ctx,
+      editingId ? doc.items.filter((annotation) => annotation.id !== editingId) : doc.items,
+    );
+    const selected = selectedIdRef.current && doc.get(selectedIdRef.current);
+    if (selected) drawSelection(ctx, selected);
+  };
+
   useEffect(() => {
     if (!isActive) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+    // Match the canvas resolution to its size and redraw from the vectors
+    const observer = new ResizeObserver(() => {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      redraw();
+    });
+    observer.observe(canvas);
 
-    // Set canvas to full screen
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
+    // Our own edits and everyone else's show up through the document
+    const unsubscribe = doc.subscribe(scheduleFrame);
 
-    // Handle window resize
-    const handleResize = () => {
-      const prevData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
-      ctx.putImageData(prevData, 0, 0);
+    return () => {
+      observer.disconnect();
+      unsubscribe();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
     };
+  }, [isActive, doc]);
 
-    window.addEventListener("resize", handleResize);
+  // Keyboard shortcuts, re-bound every render so they see the current props
+  useEffect(() => {
+    if (!isActive) return;
 
-    return () => {
-      window.removeEventListener("resize", handleResize);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA"].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if ((e.ctrlKey || e.metaKey) && key === "y") {
+        e.preventDefault();
+        redo();
+      } else if ((key === "delete" || key === "backspace") && selectedIdRef.current) {
+        e.preventDefault();
+        deleteSelected();
+      }
     };
-  }, [isActive]);
 
-  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current) return;
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
 
-    const ctx = canvasRef.current.getContext("2d");
-    if (!ctx) return;
+  // Leaving the select tool drops the selection. Switching tools or closing
+  // the toolbar places any text being typed.
+  useEffect(() => {
+    if (activeTab !== "select") selectAnnotation(null);
+    if (activeTab !== "laser") onLaserMove(null);
+    commitText();
+  }, [activeTab, isActive]);
 
-    setIsDrawing(true);
+  // Pointer position normalized to the canvas, with the pressure of a pen.
+  // A captured pointer can wander off the canvas, keep it on the edge.
+  const getPoint = (e: PointerSample): AnnotationPoint => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const point: AnnotationPoint = {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+    if (e.pointerType === "pen") point.pressure = e.pressure;
+    return point;
+  };
+
+  const emit = (op: AnnotationOp) => {
+    doc.apply(op);
+    onAnnotationUpdate(op);
+  };
+
+  const record = (entry: AnnotationHistoryEntry) => {
+    historyRef.current.push(entry);
+    setHistoryVersion((version) => version + 1);
+  };
+
+  const undo = () => {
+    const ops = historyRef.current.undo();
+    if (!ops) return;
+    ops.forEach(emit);
+    setHistoryVersion((version) => version + 1);
+  };
+
+  const redo = () => {
+    const ops = historyRef.current.redo();
+    if (!ops) return;
+    ops.forEach(emit);
+    setHistoryVersion((version) => version + 1);
+  };
+
+  // Viewers can only change what they drew, the presenter anything
+  const isEditable = (annotation: Annotation) =>
+    canClearAll || annotation.authorId === author?.id;
+
+  const selectAnnotation = (id: string | null) => {
+    selectedIdRef.current = id;
+    setSelectedId(id);
+    redraw();
+  };
+
+  // Topmost annotation we may edit under the pointer
+  const annotationAt = (point: AnnotationPoint, tolerance?: number) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return null;
+
+    return findAnnotationAt(
+      ctx,
+      doc.items.filter(isEditable),
+      { x: point.x * ctx.canvas.width, y: point.y * ctx.canvas.height },
+      tolerance,
+    );
+  };
+
+  // Send the points drawn and the move made since the last batch
+  const streamPending = () => {
+    lastStreamedRef.current = Date.now();
+
+    const stroke = currentStrokeRef.current;
+    const points = unsentPointsRef.current;
+    if (stroke && points.length > 0) {
+      unsentPointsRef.current = [];
+      onAnnotationUpdate({ op: "extend", id: stroke.id, points });
+    }
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-    ctx.lineCap = "round";
-    ctx.lineJoin = "round";
-    ctx.strokeStyle = color;
-
-    if (activeTab === "draw") {
-      ctx.lineWidth = lineWidth;
-      ctx.globalCompositeOperation = "source-over";
-    } else if (activeTab === "highlight") {
-      ctx.lineWidth = lineWidth * 3;
-      ctx.globalAlpha = 0.3;
-      ctx.globalCompositeOperation = "source-over";
-    } else if (activeTab === "erase") {
-      ctx.lineWidth = lineWidth * 2;
-      ctx.globalCompositeOperation = "destination-out";
+    const update = unsentUpdateRef.current;
+    if (update) {
+      unsentUpdateRef.current = null;
+      onAnnotationUpdate({ op: "update", annotation: update });
     }
   };
 
-  const draw = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || !canvasRef.current) return;
+  // Redraw at most once per frame while drawing
+  const scheduleFrame = () => {
+    if (frameRef.current !== null) return;
 
-    const ctx = canvasRef.current.getContext("2d");
-    if (!ctx) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      if (Date.now() - lastStreamedRef.current >= STREAM_INTERVAL) streamPending();
+      redraw();
+    });
+  };
+
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canvasRef.current) return;
+
+    setIsDrawing(true);
+
+    const tool: StrokeTool = activeTab === "highlight" ? "highlight" : "draw";
+    const widthFactor = tool === "highlight" ? 3 : 1;
+
+    const stroke: StrokeAnnotation = {
+      id: createAnnotationId(),
+      authorId: author?.id,
+      authorName: author?.name,
+      kind: "stroke",
+      tool,
+      color,
+      width: (lineWidth * widthFactor) / canvasRef.current.height,
+      points: [getPoint(e)],
+    };
+    currentStrokeRef.current = stroke;
+    unsentPointsRef.current = [];
+    lastStreamedRef.current = Date.now();
+    emit({ op: "begin", annotation: stroke });
+  };
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current;
+    if (!isDrawing || !stroke || !canvasRef.current) return;
 
-    ctx.lineTo(x, y);
-    ctx.stroke();
+    // Pens report more samples than there are frames, keep them all
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const points = (coalesced.length > 0 ? coalesced : [e.nativeEvent]).map(getPoint);
+    unsentPointsRef.current.push(...points);
+
+    // Draw locally right away, viewers get the points in batches
+    doc.apply({ op: "extend", id: stroke.id, points });
   };
 
   const stopDrawing = () => {
-    if (!canvasRef.current) return;
+    if (!isDrawing) return;
 
-    const ctx = canvasRef.current.getContext("2d");
-    if (!ctx) return;
+    // Push the tail of the stroke out to viewers
+    streamPending();
 
-    ctx.closePath();
+    const stroke = currentStrokeRef.current && doc.get(currentStrokeRef.current.id);
+    if (stroke) {
+      record({
+        redo: [{ op: "add", annotation: stroke, index: doc.items.indexOf(stroke) }],
+        undo: [{ op: "remove", id: stroke.id }],
+      });
+    }
+
+    currentStrokeRef.current = null;
     setIsDrawing(false);
-    ctx.globalAlpha = 1.0;
+    redraw();
+  };
 
-    // Send annotation update to parent component
-    if (canvasRef.current) {
-      const annotationData = canvasRef.current.toDataURL();
-      onAnnotationUpdate(annotationData);
+  // The eraser removes whole annotations it touches rather than painting over them
+  const eraseAt = (point: AnnotationPoint) => {
+    const gesture = gestureRef.current;
+    if (gesture?.type !== "erase") return;
+
+    const annotation = annotationAt(point, lineWidth * 2);
+    if (!annotation) return;
+
+    gesture.removed.push({ annotation, index: doc.items.indexOf(annotation) });
+    emit({ op: "remove", id: annotation.id });
+  };
+
+  const startErasing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    gestureRef.current = { type: "erase", removed: [] };
+    eraseAt(getPoint(e));
+  };
+
+  // Pick the annotation under the pointer and get ready to drag it
+  const startSelecting = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getPoint(e);
+    const annotation = annotationAt(point);
+    selectAnnotation(annotation?.id ?? null);
+    if (annotation) {
+      gestureRef.current = { type: "move", original: annotation, start: point, moved: null };
     }
   };
 
-  const addText = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (activeTab !== "text" || !canvasRef.current) return;
+  const moveSelection = (point: AnnotationPoint) => {
+    const gesture = gestureRef.current;
+    if (gesture?.type !== "move") return;
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const moved = translateAnnotation(
+      gesture.original,
+      point.x - gesture.start.x,
+      point.y - gesture.start.y,
+    );
+    gesture.moved = moved;
+    unsentUpdateRef.current = moved;
+    doc.apply({ op: "update", annotation: moved });
+  };
 
-    const text = prompt("Enter text:");
-    if (!text) return;
+  // Shapes are sized by dragging from one corner or end to the other
+  const startShape = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canvasRef.current) return;
 
-    const ctx = canvasRef.current.getContext("2d");
-    if (!ctx) return;
+    const point = getPoint(e);
+    const shape: ShapeAnnotation = {
+      id: createAnnotationId(),
+      authorId: author?.id,
+      authorName: author?.name,
+      kind: "shape",
+      shape: shapeType,
+      color,
+      width: lineWidth / canvasRef.current.height,
+      filled: shapeFilled && (shapeType === "rectangle" || shapeType === "ellipse"),
+      start: point,
+      end: point,
+    };
+    gestureRef.current = { type: "shape", shape };
+    lastStreamedRef.current = Date.now();
+    emit({ op: "add", annotation: shape });
+  };
 
-    ctx.font = `${lineWidth * 5}px Arial`;
-    ctx.fillStyle = color;
-    ctx.fillText(text, x, y);
+  const resizeShape = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    const canvas = canvasRef.current;
+    if (gesture?.type !== "shape" || !canvas) return;
+
+    const { shape } = gesture;
+    const point = getPoint(e);
+    // Shift snaps lines to 45° and keeps boxes square
+    const constrained = e.shiftKey
+      ? constrainShapeEnd(shape.shape, shape.start, point, canvas.width, canvas.height)
+      : point;
+    const end = {
+      x: Math.min(1, Math.max(0, constrained.x)),
+      y: Math.min(1, Math.max(0, constrained.y)),
+    };
 
-    // Send annotation update to parent component
-    const annotationData = canvasRef.current.toDataURL();
-    onAnnotationUpdate(annotationData);
+    gesture.shape = { ...shape, end };
+    unsentUpdateRef.current = gesture.shape;
+    doc.apply({ op: "update", annotation: gesture.shape });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === "pen") lastPenRef.current = Date.now();
+
+    // The laser follows the pointer without leaving anything behind
+    if (activeTab === "laser") {
+      onLaserMove(getPoint(e));
+      return;
+    }
+    if (e.pointerId !== activePointerRef.current) return;
+
+    const gesture = gestureRef.current;
+    if (gesture?.type === "erase") eraseAt(getPoint(e));
+    else if (gesture?.type === "move") moveSelection(getPoint(e));
+    else if (gesture?.type === "shape") resizeShape(e);
+    else draw(e);
+  };
+
+  const stopGesture = () => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+
+    if (gesture?.type === "erase" && gesture.removed.length > 0) {
+      record({
+        redo: gesture.removed.map(({ annotation }) => ({ op: "remove", id: annotation.id })),
+        // Put them back in reverse so each lands at the index it was removed from
+        undo: [...gesture.removed]
+          .reverse()
+          .map(({ annotation, index }) => ({ op: "add", annotation, index })),
+      });
+    } else if (gesture?.type === "shape") {
+      streamPending();
+      const { shape } = gesture;
+      const canvas = canvasRef.current;
+      const size = canvas
+        ? Math.hypot(
+            (shape.end.x - shape.start.x) * canvas.width,
+            (shape.end.y - shape.start.y) * canvas.height,
+          )
+        : 0;
+
+      // A click without a drag leaves nothing behind
+      if (size < MIN_SHAPE_SIZE) {
+        emit({ op: "remove", id: shape.id });
+      } else {
+        record({
+          redo: [{ op: "add", annotation: shape, index: doc.items.indexOf(shape) }],
+          undo: [{ op: "remove", id: shape.id }],
+        });
+      }
+    } else if (gesture?.type === "move" && gesture.moved) {
+      streamPending();
+      record({
+        redo: [{ op: "update", annotation: gesture.moved }],
+        undo: [{ op: "update", annotation: gesture.original }],
+      });
+    }
+
+    stopDrawing();
+  };
+
+  const deleteSelected = () => {
+    const annotation = selectedIdRef.current && doc.get(selectedIdRef.current);
+    if (!annotation) return;
+
+    const index = doc.items.indexOf(annotation);
+    selectAnnotation(null);
+    emit({ op: "remove", id: annotation.id });
+    record({
+      redo: [{ op: "remove", id: annotation.id }],
+      undo: [{ op: "add", annotation, index }],
+    });
+  };
+
+  // Font size for text follows the Thickness slider
+  const textSize = (width: number) => (width * 5) / (canvasRef.current?.height || 1);
+
+  const updateTextEditor = (changes: Partial<TextEditorState>) => {
+    if (!textEditorRef.current) return;
+    textEditorRef.current = { ...textEditorRef.current, ...changes };
+    setTextEditor(textEditorRef.current);
+  };
+
+  const openTextEditor = (editor: TextEditorState) => {
+    textEditorRef.current = editor;
+    setTextEditor(editor);
+    redraw();
+  };
+
+  // Place the text being edited: new text is added, edited text updated, and
+  // text emptied out removed
+  const commitText = () => {
+    const editor = textEditorRef.current;
+    if (!editor) return;
+
+    textEditorRef.current = null;
+    setTextEditor(null);
+
+    const original = doc.get(editor.id);
+    const text = editor.text.replace(/\s+$/, "");
+    const annotation: TextAnnotation = {
+      id: editor.id,
+      authorId: original ? original.authorId : author?.id,
+      authorName: original ? original.authorName : author?.name,
+      kind: "text",
+      color: editor.color,
+      size: editor.size,
+      x: editor.x,
+      y: editor.y,
+      text,
+      background: editor.background,
+    };
+
+    if (!original) {
+      if (text) {
+        emit({ op: "add", annotation });
+        record({
+          redo: [{ op: "add", annotation }],
+          undo: [{ op: "remove", id: annotation.id }],
+        });
+      }
+    } else if (!text) {
+      const index = doc.items.indexOf(original);
+      emit({ op: "remove", id: original.id });
+      record({
+        redo: [{ op: "remove", id: original.id }],
+        undo: [{ op: "add", annotation: original, index }],
+      });
+    } else {
+      emit({ op: "update", annotation });
+      record({
+        redo: [{ op: "update", annotation }],
+        undo: [{ op: "update", annotation: original }],
+      });
+    }
+
+    redraw();
+  };
+
+  const cancelText = () => {
+    textEditorRef.current = null;
+    setTextEditor(null);
+    redraw();
+  };
+
+  // Edit the text under the pointer, or start a new one where it was clicked
+  const editTextAt = (point: AnnotationPoint) => {
+    const existing = annotationAt(point);
+    if (existing?.kind === "text") {
+      setTextBackground(Boolean(existing.background));
+      openTextEditor({
+        id: existing.id,
+        x: existing.x,
+        y: existing.y,
+        text: existing.text,
+        color: existing.color,
+        size: existing.size,
+        background: Boolean(existing.background),
+      });
+      return true;
+    }
+    return false;
+  };
+
+  const addText = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    // Clicking away from the text being edited places it
+    if (textEditorRef.current) {
+      commitText();
+      return;
+    }
+
+    const point = getPoint(e);
+    if (editTextAt(point)) return;
+
+    openTextEditor({
+      id: createAnnotationId(),
+      x: point.x,
+      y: point.y,
+      text: "",
+      color,
+      size: textSize(lineWidth),
+      background: textBackground,
+    });
+  };
+
+  // Double-clicking text with the select tool re-opens it for editing
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (activeTab !== "select") return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+    if (editTextAt(point)) selectAnnotation(null);
+  };
+
+  // Toolbar changes apply to the text being edited as well
+  const changeLineWidth = (width: number) => {
+    setLineWidth(width);
+    updateTextEditor({ size: textSize(width) });
+  };
+
+  const changeColor = (c: string) => {
+    setColor(c);
+    updateTextEditor({ color: c });
+  };
+
+  const changeTextBackground = (background: boolean) => {
+    setTextBackground(background);
+    updateTextEditor({ background });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === "pen") lastPenRef.current = Date.now();
+
+    // One pointer at a time, and none of a palm resting while writing with a pen
+    if (activePointerRef.current !== null) return;
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    if (e.pointerType === "touch" && Date.now() - lastPenRef.current < PALM_REJECTION_WINDOW) {
+      return;
+    }
+
+    if (activeTab === "laser") return;
+    if (activeTab === "text") {
+      addText(e);
+      return;
+    }
+
+    // Keep receiving the pointer when it leaves the canvas mid-gesture
+    activePointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (activeTab === "erase") startErasing(e);
+    else if (activeTab === "select") startSelecting(e);
+    else if (activeTab === "shape") startShape(e);
+    else startDrawing(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerRef.current) return;
+
+    activePointerRef.current = null;
+    stopGesture();
   };
 
   const clearCanvas = () => {
-    if (!canvasRef.current) return;
+    // Remember what goes away so the clear can be undone
+    const cleared = doc.items
+      .map((annotation, index) => ({ annotation, index }))
+      .filter(({ annotation }) => isEditable(annotation));
+    if (cleared.length === 0) return;
 
-    const ctx = canvasRef.current.getContext("2d");
-    if (!ctx) return;
+    const op: AnnotationOp = canClearAll ? { op: "clear" } : { op: "clear", authorId: author?.id };
+    emit(op);
+    record({
+      redo: [op],
+      undo: cleared.map(({ annotation, index }) => ({ op: "add", annotation, index })),
+    });
+  };
+
+  const saveAnnotations = async (format: ExportFormat) => {
+    const canvas = canvasRef.current;
+    try {
+      await exportAnnotations(format, doc.items, video, {
+        width: canvas?.width || 1280,
+        height: canvas?.height || 720,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  // Add the annotations of an exported file, undoable as one step
+  const importAnnotations = (text: string) => {
+    let imported: Annotation[];
+    try {
+      imported = parseAnnotationsJson(text);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't import annotations",
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    // Viewers import as themselves, like everything else they draw
+    const ops: AnnotationOp[] = imported.map((annotation) => ({
+      op: "add",
+      annotation: canClearAll
+        ? annotation
+        : {
+            ...annotation,
+            authorId: author?.id,
+            authorName: author?.name,
+            color: fixedColor || annotation.color,
+          },
+    }));
+    if (ops.length === 0) return;
 
-    ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-    onAnnotationUpdate(null);
+    ops.forEach(emit);
+    record({
+      redo: ops,
+      undo: imported.map((annotation) => ({ op: "remove", id: annotation.id })),
+    });
   };
 
-  const startDragging = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!toolbarRef.current) return;
+  const startDragging = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Buttons in the handle stay clickable
+    if (!toolbarRef.current || (e.target as HTMLElement).closest("button")) return;
 
+    e.currentTarget.setPointerCapture(e.pointerId);
     setIsDragging(true);
     const rect = toolbarRef.current.getBoundingClientRect();
     setPosition({
@@ -188,16 +803,17 @@ const ScreenShareOverlay = ({
     });
   };
 
-  const onDrag = (e: React.MouseEvent<HTMLDivElement>) => {
+  const onDrag = (e: React.PointerEvent<HTMLDivElement>) => {
     if (!isDragging || !toolbarRef.current) return;
 
     const toolbar = toolbarRef.current;
-    const newLeft = e.clientX - position.x;
-    const newTop = e.clientY - position.y;
+    const bounds = toolbar.parentElement!.getBoundingClientRect();
+    const newLeft = e.clientX - bounds.left - position.x;
+    const newTop = e.clientY - bounds.top - position.y;
 
-    // Ensure toolbar stays within viewport bounds
-    const maxX = window.innerWidth - toolbar.offsetWidth;
-    const maxY = window.innerHeight - toolbar.offsetHeight;
+    // Ensure toolbar stays within the shared screen
+    const maxX = bounds.width - toolbar.offsetWidth;
+    const maxY = bounds.height - toolbar.offsetHeight;
 
     toolbar.style.left = `${Math.max(0, Math.min(newLeft, maxX))}px`;
     toolbar.style.top = `${Math.max(0, Math.min(newTop, maxY))}px`;
@@ -207,31 +823,78 @@ const ScreenShareOverlay = ({
     setIsDragging(false);
   };
 
+  // The toolbar's title bar and footer move it around
+  const dragHandleProps = {
+    onPointerDown: startDragging,
+    onPointerMove: onDrag,
+    onPointerUp: stopDragging,
+    onPointerCancel: stopDragging,
+  };
+
   if (!isActive) return null;
 
   return (
-    <div className="fixed inset-0 z-50 bg-transparent pointer-events-auto">
-      <canvas
-        ref={canvasRef}
-        className="absolute inset-0 w-full h-full cursor-crosshair"
-        onMouseDown={activeTab === "text" ? addText : startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-      />
+    <div className="absolute inset-0 z-50 bg-transparent pointer-events-auto">
+      {/* Drawing happens over the shared picture, the toolbar may sit anywhere */}
+      <div style={surfaceStyle(surface)}>
+        <canvas
+          ref={canvasRef}
+          className={`absolute inset-0 w-full h-full touch-none ${canvasCursors[activeTab] || "cursor-crosshair"}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onLostPointerCapture={handlePointerUp}
+          onPointerLeave={() => activeTab === "laser" && onLaserMove(null)}
+          onDoubleClick={handleDoubleClick}
+        />
+
+        {textEditor && (
+          <AnnotationTextEditor
+            key={textEditor.id}
+            editor={textEditor}
+            surfaceHeight={canvasRef.current?.clientHeight || 0}
+            onChange={(text) => updateTextEditor({ text })}
+            onCommit={commitText}
+            onCancel={cancelText}
+          />
+        )}
+      </div>
 
       <div
         ref={toolbarRef}
         className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-background border rounded-lg shadow-lg p-2"
         style={{ zIndex: 60 }}
-        onMouseDown={startDragging}
-        onMouseMove={onDrag}
-        onMouseUp={stopDragging}
-        onMouseLeave={stopDragging}
       >
-        <div className="flex items-center justify-between mb-2 cursor-move">
+        <div
+          className="flex items-center justify-between mb-2 cursor-move touch-none"
+          {...dragHandleProps}
+        >
           <div className="text-sm font-medium">Annotation Tools</div>
           <div className="flex gap-1">
+            <ExportMenu
+              onExport={saveAnnotations}
+              onImport={importAnnotations}
+              pngHint="with the screen"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={undo}
+              disabled={!historyRef.current.canUndo}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={redo}
+              disabled={!historyRef.current.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
             <Button variant="ghost" size="sm" onClick={onClose}>
               <X className="h-4 w-4" />
             </Button>
@@ -239,7 +902,11 @@ const ScreenShareOverlay = ({
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-4 mb-2">
+          <TabsList className="grid grid-cols-7 mb-2">
+            <TabsTrigger value="select">
+              <MousePointer2 className="h-4 w-4 mr-1" />
+              Select
+            </TabsTrigger>
             <TabsTrigger value="draw">
               <Pencil className="h-4 w-4 mr-1" />
               Draw
@@ -248,29 +915,105 @@ const ScreenShareOverlay = ({
               <Highlighter className="h-4 w-4 mr-1" />
               Highlight
             </TabsTrigger>
+            <TabsTrigger value="shape">
+              <Shapes className="h-4 w-4 mr-1" />
+              Shapes
+            </TabsTrigger>
             <TabsTrigger value="text">
               <Type className="h-4 w-4 mr-1" />
               Text
             </TabsTrigger>
+            <TabsTrigger value="laser">
+              <Zap className="h-4 w-4 mr-1" />
+              Laser
+            </TabsTrigger>
             <TabsTrigger value="erase">
               <Eraser className="h-4 w-4 mr-1" />
               Erase
             </TabsTrigger>
           </TabsList>
 
+          {activeTab === "shape" && (
+            <div className="flex items-center justify-between gap-4 px-2">
+              <div className="flex gap-1">
+                {shapeTools.map(({ value, label, icon: Icon }) => (
+                  <Toggle
+                    key={value}
+                    size="sm"
+                    pressed={shapeType === value}
+                    onPressedChange={() => setShapeType(value)}
+                    aria-label={label}
+                    title={label}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </Toggle>
+                ))}
+              </div>
+              {(shapeType === "rectangle" || shapeType === "ellipse") && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="shape-fill" className="text-xs">
+                    Fill
+                  </Label>
+                  <Switch id="shape-fill" checked={shapeFilled} onCheckedChange={setShapeFilled} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === "text" && (
+            <div className="flex items-center justify-between gap-4 px-2">
+              <div className="text-xs text-muted-foreground">
+                Click to type, Ctrl+Enter to place
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="text-background" className="text-xs">
+                  Background
+                </Label>
+                <Switch
+                  id="text-background"
+                  checked={textBackground}
+                  onCheckedChange={changeTextBackground}
+                />
+              </div>
+            </div>
+          )}
+
           <div className="flex items-center justify-between gap-4 p-2">
             <div className="flex-1">
-              <div className="text-xs mb-1">Thickness</div>
+              <div className="text-xs mb-1">{activeTab === "text" ? "Size" : "Thickness"}</div>
               <Slider
                 value={[lineWidth]}
                 min={1}
                 max={10}
                 step={1}
-                onValueChange={(value) => setLineWidth(value[0])}
+                onValueChange={(value) => changeLineWidth(value[0])}
               />
             </div>
 
-            {activeTab !== "erase" && (
+            {activeTab === "select" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={deleteSelected}
+                disabled={!selectedId}
+                title="Delete (Del)"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+
+            {!["erase", "select"].includes(activeTab) && fixedColor && (
+              <div>
+                <div className="text-xs mb-1">Your color</div>
+                <div
+                  className="w-6 h-6 rounded-full border"
+                  style={{ backgroundColor: fixedColor }}
+                />
+              </div>
+            )}
+
+            {!["erase", "select"].includes(activeTab) && !fixedColor && (
               <div>
                 <div className="text-xs mb-1">Color</div>
                 <Popover>
@@ -291,7 +1034,7 @@ const ScreenShareOverlay = ({
                               <button
                                 className={`w-8 h-8 rounded-full border-2 ${color === c ? "border-primary" : "border-transparent"}`}
                                 style={{ backgroundColor: c }}
-                                onClick={() => setColor(c)}
+                                onClick={() => changeColor(c)}
                               />
                             </TooltipTrigger>
                             <TooltipContent>
@@ -323,12 +1066,40 @@ const ScreenShareOverlay = ({
             )}
 
             <Button variant="destructive" size="sm" onClick={clearCanvas}>
-              Clear
+              {canClearAll ? "Clear" : "Clear mine"}
             </Button>
           </div>
         </Tabs>
 
-        <div className="flex justify-center mt-1">
+        {onViewersCanAnnotateChange && (
+          <div className="flex items-center justify-between gap-4 px-2 pb-1">
+            <Label htmlFor="viewers-annotate" className="text-xs flex items-center">
+              <Users className="h-3 w-3 mr-1" />
+              Viewers can annotate
+            </Label>
+            <Switch
+              id="viewers-annotate"
+              checked={viewersCanAnnotate}
+              onCheckedChange={onViewersCanAnnotateChange}
+            />
+          </div>
+        )}
+
+        {onShowCursorsChange && (
+          <div className="flex items-center justify-between gap-4 px-2 pb-1">
+            <Label htmlFor="show-cursors" className="text-xs flex items-center">
+              <MousePointerClick className="h-3 w-3 mr-1" />
+              Show viewers' cursors
+            </Label>
+            <Switch
+              id="show-cursors"
+              checked={showCursors}
+              onCheckedChange={onShowCursorsChange}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-center mt-1 cursor-move touch-none" {...dragHandleProps}>
           <div className="text-xs text-muted-foreground flex items-center">
             <Move className="h-3 w-3 mr-1" /> Drag to move toolbar
           </div>
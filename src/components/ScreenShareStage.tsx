@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from "react";
+import { MonitorUp } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { getVideoSurface, sameSurface, SurfaceRect } from "@/lib/surface";
+
+interface ScreenShareStageProps {
+  stream: MediaStream;
+  presenterName?: string;
+  /** Our own share, shown back to us */
+  isLocal?: boolean;
+  /** Where our cursor is over the share, null once it left. Only set when
+   * the presenter shows viewers' cursors. */
+  onCursorMove?: (position: { x: number; y: number } | null) => void;
+  /** Overlays such as annotations, given where the shared picture is and
+   * the video showing it */
+  children?: (surface: SurfaceRect | null, video: HTMLVideoElement | null) => React.ReactNode;
+}
+
+// Main stage for a screen share. Overlays are rendered by `children` and sit
+// on top of the video, lined up with the picture rather than the letterbox.
+const ScreenShareStage = ({
+  stream,
+  presenterName = "Participant",
+  isLocal = false,
+  onCursorMove,
+  children,
+}: ScreenShareStageProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [surface, setSurface] = useState<SurfaceRect | null>(null);
+
+  // Set up video stream when component mounts or stream changes
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Follow the picture as the stage resizes or the share changes resolution
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const update = () => {
+      const next = getVideoSurface(video);
+      setSurface((prev) => (sameSurface(prev, next) ? prev : next));
+    };
+
+    const observer = new ResizeObserver(update);
+    observer.observe(video);
+    video.addEventListener("loadedmetadata", update);
+    video.addEventListener("resize", update);
+    update();
+
+    return () => {
+      observer.disconnect();
+      video.removeEventListener("loadedmetadata", update);
+      video.removeEventListener("resize", update);
+    };
+  }, []);
+
+  // Report the cursor normalized to the picture, the space annotations use
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!onCursorMove || !surface || e.pointerType === "touch") return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left - surface.left) / surface.width;
+    const y = (e.clientY - rect.top - surface.top) / surface.height;
+    onCursorMove(x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null);
+  };
+
+  return (
+    <Card
+      className="relative h-full w-full overflow-hidden bg-black"
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => onCursorMove?.(null)}
+    >
+      <video
+        ref={videoRef}
+        className="h-full w-full object-contain"
+        autoPlay
+        playsInline
+        muted={isLocal}
+      />
+      <Badge
+        variant="secondary"
+        className="absolute top-3 left-3 z-20 flex items-center gap-1 bg-black/60 text-white"
+      >
+        <MonitorUp className="h-3 w-3" />
+        {isLocal ? "You are presenting" : `${presenterName} is presenting`}
+      </Badge>
+      {children?.(surface, videoRef.current)}
+    </Card>
+  );
+};
+
+export default ScreenShareStage;
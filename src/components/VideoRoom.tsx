@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from "react";
-import { Peer, MediaConnection } from "peerjs";
+import { Peer, MediaConnection, DataConnection, PeerOptions } from "peerjs";
 import { useParams, useNavigate, useLocation } from "react-router-dom";
 import {
   X,
@@ -12,16 +12,109 @@ import {
   Settings,
   Phone,
   AlertCircle,
+  Lock,
+  DoorOpen,
+  Loader2,
+  WifiOff,
 } from "lucide-react";
 
 import VideoBubble from "./VideoBubble";
 import ControlPanel from "./ControlPanel";
 import ScreenShareOverlay from "./ScreenShareOverlay";
+import ScreenShareStage from "./ScreenShareStage";
+import AnnotationLayer from "./AnnotationLayer";
+import PointerLayer from "./PointerLayer";
+import Whiteboard from "./Whiteboard";
+import ChatPanel, { ChatContact } from "./ChatPanel";
+import FileTransferPanel from "./FileTransferPanel";
+import ParticipantsPanel, { WaitingParticipant } from "./ParticipantsPanel";
+
+import {
+  createSignalingTransport,
+  SignalingEvent,
+  SignalingTransport,
+} from "@/lib/signaling";
+import {
+  getPeerServerOptions,
+  getSignalingTransportKind,
+  getSignalingUrl,
+} from "@/lib/config";
+import {
+  applyIceConfig,
+  getSelectedCandidatePair,
+  resolveIceConfig,
+  scheduleIceRefresh,
+  SelectedCandidatePair,
+} from "@/lib/ice";
+import {
+  AnnotationDocument,
+  AnnotationOp,
+  AnnotationPoint,
+  authorColor,
+  normalizeAnnotationOp,
+} from "@/lib/annotations";
+import {
+  normalizePointerPosition,
+  POINTER_SEND_INTERVAL,
+  PointerMode,
+  PointerPresence,
+} from "@/lib/pointers";
+import {
+  batchBoardEntries,
+  normalizeBoardEntries,
+  WhiteboardDocument,
+} from "@/lib/whiteboard";
+import {
+  ChatEntry,
+  CHAT_HISTORY_LIMIT,
+  createChatEntry,
+  mergeChatHistory,
+  normalizeChatEntry,
+} from "@/lib/chat";
+import { FileTransfer, FileTransferManager, formatFileSize } from "@/lib/fileTransfer";
+import {
+  PeerReconnector,
+  ReconnectState,
+  RECOVERABLE_PEER_ERRORS,
+} from "@/lib/reconnect";
+import {
+  answerChallenge,
+  createChallenge,
+  decideAdmission,
+  deriveRoomKey,
+  getDeviceId,
+  isMutuallyAdmitted,
+  isNewcomer,
+  PeerAuthState,
+  verifyAnswer,
+} from "@/lib/admission";
+import {
+  ADMISSION_MESSAGE_TYPES,
+  AdmissionRejectReason,
+  electSuccessor,
+  HEARTBEAT_INTERVAL,
+  isDialer,
+  isRoomMessage,
+  isTrustedFirstPolicy,
+  ModerationAction,
+  ModerationMessage,
+  normalizeParticipant,
+  normalizePolicy,
+  ParticipantInfo,
+  PEER_TIMEOUT,
+  PointerMessage,
+  ROOM_CONNECTION_LABEL,
+  RoomMessage,
+  RoomPolicy,
+  sendMessage,
+} from "@/lib/protocol";
 
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { ToastAction } from "./ui/toast";
+import { toast } from "./ui/use-toast";
 import {
   Tooltip,
   TooltipContent,
@@ -58,11 +151,39 @@ const VideoRoom = ({
   const [isVideoLoading, setIsVideoLoading] = useState<boolean>(false);
   const [isScreenSharing, setIsScreenSharing] = useState<boolean>(false);
   const [isAnnotating, setIsAnnotating] = useState<boolean>(false);
-  const [participantCount, setParticipantCount] = useState<number>(1);
   const [connectionStatus, setConnectionStatus] = useState<
-    "connecting" | "connected" | "disconnected" | "error"
+    "connecting" | "connected" | "reconnecting" | "disconnected" | "error"
   >("connecting");
+  const [reconnectState, setReconnectState] = useState<ReconnectState>({
+    status: "connected",
+  });
   const [errorMessage, setErrorMessage] = useState<string>("");
+  const [iceTransportPolicy, setIceTransportPolicy] =
+    useState<RTCIceTransportPolicy>("all");
+  const [candidatePairs, setCandidatePairs] = useState<
+    Record<string, SelectedCandidatePair>
+  >({});
+  const [roster, setRoster] = useState<Record<string, ParticipantInfo>>({});
+  const [admissionError, setAdmissionError] =
+    useState<AdmissionRejectReason | null>(null);
+  const [roomPolicy, setRoomPolicy] = useState<RoomPolicy | null>(null);
+  const [isParticipantsOpen, setIsParticipantsOpen] = useState<boolean>(false);
+  const [isWaitingForHost, setIsWaitingForHost] = useState<boolean>(false);
+  const [waitingPeers, setWaitingPeers] = useState<WaitingParticipant[]>([]);
+  const [viewersCanAnnotate, setViewersCanAnnotate] = useState<boolean>(true);
+  const [annotationAccess, setAnnotationAccess] = useState<Record<string, boolean>>({});
+  const [showCursors, setShowCursors] = useState<boolean>(false);
+  const [cursorPresence, setCursorPresence] = useState<Record<string, boolean>>({});
+  const [isWhiteboardOpen, setIsWhiteboardOpen] = useState<boolean>(false);
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([]);
+  const [isChatOpen, setIsChatOpen] = useState<boolean>(false);
+  const [unreadChatCount, setUnreadChatCount] = useState<number>(0);
+  // Private conversations by the other peer's ID, null shows the room chat
+  const [directMessages, setDirectMessages] = useState<Record<string, ChatEntry[]>>({});
+  const [activeChatThread, setActiveChatThread] = useState<string | null>(null);
+  const [unreadDirect, setUnreadDirect] = useState<Record<string, number>>({});
+  const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([]);
+  const [isFilesOpen, setIsFilesOpen] = useState<boolean>(false);
   
   // Use ref to store cleanup functions to avoid state updates
   const cleanupFunctionsRef = useRef<Array<() => void>>([]);
@@ -71,6 +192,76 @@ const VideoRoom = ({
   const navigate = useNavigate();
   const location = useLocation();
   const connections = useRef<Record<string, MediaConnection>>({});
+  const dataConnections = useRef<Record<string, DataConnection>>({});
+  const peerRef = useRef<Peer | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const transportRef = useRef<SignalingTransport | null>(null);
+
+  // Screen shares travel as extra calls next to the camera call of a peer
+  const screenShareStreamRef = useRef<MediaStream | null>(null);
+  const outgoingScreenCalls = useRef<Record<string, MediaConnection>>({});
+  const incomingScreenCalls = useRef<Record<string, MediaConnection>>({});
+  const pendingScreenCalls = useRef<Record<string, MediaConnection>>({});
+
+  // Annotations on our own screen share, replayed to viewers who join late,
+  // and on the screen shares we receive, by presenter
+  const localAnnotations = useRef(new AnnotationDocument());
+  const remoteAnnotations = useRef<Record<string, AnnotationDocument>>({});
+  const viewersCanAnnotateRef = useRef<boolean>(true);
+  // Laser pointers and cursors over our share and the shares we watch
+  const localPointers = useRef(new PointerPresence());
+  const remotePointers = useRef<Record<string, PointerPresence>>({});
+  const showCursorsRef = useRef<boolean>(false);
+  const lastPointerSent = useRef<Record<string, number>>({});
+
+  // Our replica of the shared whiteboard, kept while the board is closed so
+  // it is up to date when opened and can be handed to late joiners
+  const whiteboard = useRef(new WhiteboardDocument());
+  // Chat so far, mirrored in a ref to hand to late joiners
+  const chatHistory = useRef<ChatEntry[]>([]);
+  // Files sent and received, only with peers both sides have let in
+  const fileTransferManager = useRef(
+    new FileTransferManager(
+      (peerId, message) =>
+        isMutuallyAdmitted(peerAuth.current[peerId]) &&
+        sendMessage(dataConnections.current[peerId], message),
+      (peerId) => dataConnections.current[peerId]?.dataChannel,
+    ),
+  );
+
+  // When we last heard from each peer, silent peers get evicted
+  const lastSeen = useRef<Record<string, number>>({});
+
+  // Recovery after losing the PeerServer, and the peers we were with when
+  // it happened so we can find them again
+  const reconnectorRef = useRef<PeerReconnector | null>(null);
+  const presentPeers = useRef<Set<string>>(new Set());
+
+  // Admission state: the key derived from the room password, the handshake
+  // state per peer and calls held back until their peer passed admission
+  const roomKeyRef = useRef<CryptoKey | null>(null);
+  const peerAuth = useRef<Record<string, PeerAuthState>>({});
+  const pendingCalls = useRef<Record<string, MediaConnection>>({});
+  const dialedPeers = useRef<Set<string>>(new Set());
+  // Data connections we dialed that haven't opened yet, a second dial would
+  // restart the handshake under the first one
+  const pendingDials = useRef<Record<string, DataConnection>>({});
+
+  // Room policy as last received from the host, plus the peers that have
+  // been members (let in while locked) and those the host removed
+  const roomPolicyRef = useRef<RoomPolicy | null>(null);
+  const knownPeers = useRef<Set<string>>(new Set());
+  const removedPeers = useRef<Set<string>>(new Set());
+  // Browsers of removed peers, a reload gives them a new peer ID but not this
+  const removedDevices = useRef<Set<string>>(new Set());
+  // Policies members sent before we had one, held until the host or a
+  // second member vouches for them
+  const policyReports = useRef<Record<string, RoomPolicy>>({});
+
+  // Roster mirrored in a ref for host elections, which can run before the
+  // latest roster update has rendered
+  const rosterRef = useRef<Record<string, ParticipantInfo>>({});
+  const hasLeftRef = useRef<boolean>(false);
 
   // Get user ID and other data from location state
   const userIdFromState = location.state?.userId;
@@ -81,6 +272,1167 @@ const VideoRoom = ({
 
   const actualRoomId = roomId || roomIdFromState || id || "";
 
+  // The room creator is admitted by definition, everyone else once a member
+  // has verified their password
+  const isAdmittedRef = useRef<boolean>(isHost);
+
+  // Host powers follow the replicated room policy, not the navigation state
+  const isRoomHost = roomPolicy ? roomPolicy.hostId === peer?.id : isHost;
+
+  // Our own roster record, kept in a ref so connection handlers see the latest
+  const localParticipant: ParticipantInfo = {
+    peerId: peer?.id || "",
+    userName: userNameFromState,
+    isMuted: !isAudioEnabled,
+    isVideoOff: !isVideoEnabled,
+    isScreenSharing,
+    role: isRoomHost ? "host" : "participant",
+  };
+  const localParticipantRef = useRef<ParticipantInfo>(localParticipant);
+  localParticipantRef.current = localParticipant;
+
+  // Send a message to every member of the room, newcomers that haven't been
+  // let in by both sides yet get nothing
+  const broadcastMessage = (message: RoomMessage) => {
+    Object.entries(dataConnections.current).forEach(([peerId, connection]) => {
+      if (isMutuallyAdmitted(peerAuth.current[peerId])) {
+        sendMessage(connection, message);
+      }
+    });
+  };
+
+  const applyRoomPolicy = (policy: RoomPolicy) => {
+    roomPolicyRef.current = policy;
+    setRoomPolicy(policy);
+
+    // Only the host keeps the waiting list
+    if (policy.hostId !== peerRef.current?.id) setWaitingPeers([]);
+  };
+
+  const updateRoster = (next: Record<string, ParticipantInfo>) => {
+    rosterRef.current = next;
+    setRoster(next);
+  };
+
+  // Everyone in the room as far as we know, ourselves included
+  const getRoomMembers = (): ParticipantInfo[] => [
+    localParticipantRef.current,
+    ...Object.values(rosterRef.current),
+  ];
+
+  // We just became host: people in the waiting room knocked at the previous
+  // host, so ask them to knock again
+  const assumeHostRole = () => {
+    Object.entries(peerAuth.current).forEach(([peerId, auth]) => {
+      if (auth.waiting) sendMessage(dataConnections.current[peerId], { type: "waiting" });
+    });
+    toast({
+      title: "You are now the host",
+      description: "You can admit people, lock the room and moderate the meeting.",
+    });
+  };
+
+  // The host is gone. Every member elects the same successor from its roster,
+  // the successor bumps the epoch and publishes the policy under its own ID.
+  const handleHostLeft = (hostId: string) => {
+    const policy = roomPolicyRef.current;
+    const myPeerId = peerRef.current?.id;
+    if (!policy || policy.hostId !== hostId || !myPeerId) return;
+    if (!isAdmittedRef.current || hasLeftRef.current) return;
+
+    const successorId = electSuccessor(getRoomMembers(), hostId, policy.joinOrder);
+    if (!successorId) return;
+    console.log(`Host ${hostId} left, ${successorId} takes over`);
+
+    if (successorId === myPeerId) {
+      const nextPolicy = { ...policy, hostId: myPeerId, epoch: policy.epoch + 1 };
+      applyRoomPolicy(nextPolicy);
+      broadcastMessage({ type: "policy", policy: nextPolicy });
+      assumeHostRole();
+    } else {
+      // Until its policy arrives, the successor is the only one we listen to
+      applyRoomPolicy({ ...policy, hostId: successorId });
+    }
+  };
+
+  // Leave the room and tell the user why on the home page
+  const leaveWithNotice = (notice: string) => {
+    releaseResources();
+    navigate("/", { state: { notice } });
+  };
+
+  // Keep track of a media connection and its remote stream
+  const attachCall = (call: MediaConnection) => {
+    const peerId = call.peer;
+
+    // One media session per peer: a newer call replaces the old one, which
+    // is closed so its RTCPeerConnection doesn't linger
+    const previous = connections.current[peerId];
+    connections.current[peerId] = call;
+    if (previous && previous !== call) {
+      console.log(`Replacing call with ${peerId}`);
+      previous.close();
+    }
+
+    // Handle incoming stream
+    call.on("stream", (remoteStream) => {
+      if (connections.current[peerId] !== call) return;
+      console.log(`Received stream from peer ${peerId}`);
+
+      // Add to remote streams, or swap in the stream of the newer call
+      setRemoteStreams((prev) => {
+        if (prev.find((s) => s.id === peerId && !s.isScreenShare)) {
+          return prev.map((s) =>
+            s.id === peerId && !s.isScreenShare ? { ...s, stream: remoteStream } : s
+          );
+        }
+
+        console.log("Adding new remote stream from:", peerId);
+        return [
+          ...prev,
+          {
+            id: peerId,
+            stream: remoteStream,
+            userName: "Participant",
+            connectionQuality: "good",
+          },
+        ];
+      });
+    });
+
+    // Handle call errors
+    call.on("error", (err) => {
+      console.error(`Error in call with ${peerId}:`, err);
+    });
+
+    // Handle call closing
+    call.on("close", () => {
+      console.log(`Call with ${peerId} closed`);
+
+      // A call that was replaced doesn't own the stream anymore
+      if (connections.current[peerId] !== call) return;
+
+      // Remove from connections so the peer can be called again
+      delete connections.current[peerId];
+
+      // Remove from remote streams
+      setRemoteStreams((prev) => prev.filter((s) => s.id !== peerId || s.isScreenShare));
+    });
+  };
+
+  // Put a peer's screen share on the stage
+  const attachScreenShare = (call: MediaConnection) => {
+    const peerId = call.peer;
+
+    const previous = incomingScreenCalls.current[peerId];
+    incomingScreenCalls.current[peerId] = call;
+    if (previous && previous !== call) previous.close();
+
+    call.on("stream", (screenStream) => {
+      if (incomingScreenCalls.current[peerId] !== call) return;
+      console.log(`Received screen share from peer ${peerId}`);
+
+      setRemoteStreams((prev) => [
+        ...prev.filter((s) => s.id !== peerId || !s.isScreenShare),
+        { id: peerId, stream: screenStream, isScreenShare: true },
+      ]);
+    });
+
+    call.on("error", (err) => {
+      console.error(`Error in screen share from ${peerId}:`, err);
+    });
+
+    call.on("close", () => {
+      if (incomingScreenCalls.current[peerId] !== call) return;
+      console.log(`Screen share from ${peerId} closed`);
+      removeScreenShare(peerId);
+    });
+  };
+
+  const answerScreenShare = (call: MediaConnection) => {
+    try {
+      // Viewers only receive, nothing to send back
+      call.answer();
+      attachScreenShare(call);
+    } catch (err) {
+      console.error("Error answering screen share:", err);
+    }
+  };
+
+  // Take a peer's screen share off the stage
+  const removeScreenShare = (peerId: string) => {
+    const call = incomingScreenCalls.current[peerId];
+    delete incomingScreenCalls.current[peerId];
+    call?.close();
+    setRemoteStreams((prev) => prev.filter((s) => s.id !== peerId || !s.isScreenShare));
+    delete remoteAnnotations.current[peerId];
+    delete remotePointers.current[peerId];
+  };
+
+  const getRemoteAnnotations = (peerId: string) => {
+    if (!remoteAnnotations.current[peerId]) {
+      remoteAnnotations.current[peerId] = new AnnotationDocument();
+    }
+    return remoteAnnotations.current[peerId];
+  };
+
+  const getRemotePointers = (peerId: string) => {
+    if (!remotePointers.current[peerId]) {
+      remotePointers.current[peerId] = new PointerPresence();
+    }
+    return remotePointers.current[peerId];
+  };
+
+  // Show where someone points on our screen share to its viewers, except
+  // the one pointing
+  const relayPointer = (message: PointerMessage, exceptPeerId?: string) => {
+    Object.keys(outgoingScreenCalls.current).forEach((peerId) => {
+      if (peerId === exceptPeerId) return;
+      sendMessage(dataConnections.current[peerId], message);
+    });
+  };
+
+  // Point at a screen share, ours or one we watch. Moves are sent at most
+  // every POINTER_SEND_INTERVAL, leaving the share always is.
+  const sendPointer = (
+    presenterId: string,
+    mode: PointerMode,
+    position: AnnotationPoint | null,
+  ) => {
+    const myPeerId = peerRef.current?.id;
+    if (!myPeerId) return;
+
+    const now = Date.now();
+    if (position && now - (lastPointerSent.current[mode] || 0) < POINTER_SEND_INTERVAL) return;
+    lastPointerSent.current[mode] = now;
+
+    const update = {
+      peerId: myPeerId,
+      name: userNameFromState,
+      color: authorColor(myPeerId),
+      mode,
+      position,
+    };
+
+    if (presenterId === myPeerId) {
+      localPointers.current.update(update);
+      relayPointer({
+        type: "pointer",
+        presenterId,
+        pointerId: myPeerId,
+        name: update.name,
+        mode,
+        position,
+      });
+      return;
+    }
+
+    // Our own laser shows on our stage too, our cursor is already on screen
+    if (mode === "laser") getRemotePointers(presenterId).update(update);
+    sendMessage(dataConnections.current[presenterId], {
+      type: "pointer",
+      presenterId,
+      mode,
+      position,
+    });
+  };
+
+  // Presenter-only: show viewers' cursors over our screen share, or hide them
+  const changeShowCursors = (enabled: boolean) => {
+    showCursorsRef.current = enabled;
+    setShowCursors(enabled);
+    if (!enabled) localPointers.current.clear("cursor");
+    Object.keys(outgoingScreenCalls.current).forEach((peerId) => {
+      sendMessage(dataConnections.current[peerId], { type: "cursor-presence", enabled });
+    });
+  };
+
+  const addChatMessages = (entries: ChatEntry[]) => {
+    chatHistory.current = mergeChatHistory(chatHistory.current, entries);
+    setChatMessages(chatHistory.current);
+  };
+
+  const sendChatMessage = (text: string) => {
+    const myPeerId = peerRef.current?.id;
+    if (!myPeerId) return;
+
+    const entry = createChatEntry({ id: myPeerId, name: userNameFromState }, text);
+    addChatMessages([entry]);
+    broadcastMessage({ type: "chat", entry });
+  };
+
+  const addDirectMessage = (peerId: string, entry: ChatEntry) => {
+    setDirectMessages((prev) => ({
+      ...prev,
+      [peerId]: mergeChatHistory(prev[peerId] || [], [entry]),
+    }));
+  };
+
+  // Private messages go over the data connection to that one peer only
+  const sendDirectMessage = (peerId: string, text: string) => {
+    const myPeerId = peerRef.current?.id;
+    const connection = dataConnections.current[peerId];
+    if (!myPeerId || !connection || !isMutuallyAdmitted(peerAuth.current[peerId])) return;
+
+    const entry = createChatEntry({ id: myPeerId, name: userNameFromState }, text, peerId);
+    addDirectMessage(peerId, entry);
+    sendMessage(connection, { type: "direct", entry });
+  };
+
+  // The conversation on screen has been read
+  const markChatRead = (thread: string | null) => {
+    if (thread) setUnreadDirect((prev) => ({ ...prev, [thread]: 0 }));
+    else setUnreadChatCount(0);
+  };
+
+  const toggleChat = () => {
+    if (!isChatOpen) markChatRead(activeChatThread);
+    setIsChatOpen(!isChatOpen);
+  };
+
+  const openChatThread = (thread: string | null) => {
+    setActiveChatThread(thread);
+    setIsChatOpen(true);
+    markChatRead(thread);
+  };
+
+  // Offer files to one peer, or to everyone who has admitted us
+  const sendFiles = (files: File[], peerId: string | null) => {
+    const peerIds = peerId
+      ? [peerId]
+      : Object.keys(dataConnections.current).filter((id) =>
+          isMutuallyAdmitted(peerAuth.current[id]),
+        );
+
+    files.forEach((file) => fileTransferManager.current.sendFile(peerIds, file));
+  };
+
+  // Let us know a file is on offer, wherever we are in the UI
+  const notifyFileOffer = (transfer: FileTransfer) => {
+    const senderName = rosterRef.current[transfer.peerId]?.userName || "A participant";
+    toast({
+      title: "Incoming file",
+      description: `${senderName} wants to send you ${transfer.name} (${formatFileSize(transfer.size)}).`,
+      action: (
+        <div className="flex gap-2">
+          <ToastAction
+            altText="Decline"
+            onClick={() => fileTransferManager.current.decline(transfer.id)}
+          >
+            Decline
+          </ToastAction>
+          <ToastAction
+            altText="Accept"
+            onClick={() => {
+              fileTransferManager.current.accept(transfer.id);
+              setIsFilesOpen(true);
+            }}
+          >
+            Accept
+          </ToastAction>
+        </div>
+      ),
+    });
+  };
+
+  // Stream an edit of our share's annotations to its viewers, except the one
+  // it came from
+  const relayAnnotation = (op: AnnotationOp, exceptPeerId?: string) => {
+    const myPeerId = peerRef.current?.id;
+    if (!myPeerId) return;
+
+    Object.keys(outgoingScreenCalls.current).forEach((peerId) => {
+      if (peerId === exceptPeerId) return;
+      sendMessage(dataConnections.current[peerId], {
+        type: "annotation",
+        presenterId: myPeerId,
+        op,
+      });
+    });
+  };
+
+  // A viewer marked up our screen share. The edit only counts if viewers may
+  // annotate and it touches nothing but the viewer's own annotations.
+  const acceptViewerAnnotation = (peerId: string, op: AnnotationOp): AnnotationOp | null => {
+    if (!viewersCanAnnotateRef.current) return null;
+
+    const author = {
+      authorId: peerId,
+      authorName: rosterRef.current[peerId]?.userName || "Participant",
+    };
+
+    // Viewers may only touch what they drew themselves
+    const ownsOrNew = (id: string) => {
+      const existing = localAnnotations.current.get(id);
+      return !existing || existing.authorId === peerId;
+    };
+    const owns = (id: string) => localAnnotations.current.get(id)?.authorId === peerId;
+
+    switch (op.op) {
+      case "begin":
+        if (!ownsOrNew(op.annotation.id)) return null;
+        return {
+          op: "begin",
+          annotation: { ...op.annotation, ...author, color: authorColor(peerId) },
+        };
+      case "add":
+        if (!ownsOrNew(op.annotation.id)) return null;
+        return {
+          ...op,
+          annotation: { ...op.annotation, ...author, color: authorColor(peerId) },
+        };
+      case "update":
+        if (!owns(op.annotation.id)) return null;
+        return {
+          op: "update",
+          annotation: { ...op.annotation, ...author, color: authorColor(peerId) },
+        };
+      case "extend":
+        return owns(op.id) ? op : null;
+      case "remove":
+        return owns(op.id) ? op : null;
+      case "clear":
+        return { op: "clear", authorId: peerId };
+      default:
+        return null;
+    }
+  };
+
+  // Presenter-only: let viewers annotate our screen share, or stop them
+  const changeViewerAnnotation = (allowed: boolean) => {
+    viewersCanAnnotateRef.current = allowed;
+    setViewersCanAnnotate(allowed);
+    Object.keys(outgoingScreenCalls.current).forEach((peerId) => {
+      sendMessage(dataConnections.current[peerId], { type: "annotation-access", allowed });
+    });
+  };
+
+  // We annotate someone else's screen share, the presenter relays it
+  const sendViewerAnnotation = (presenterId: string, op: AnnotationOp) => {
+    sendMessage(dataConnections.current[presenterId], {
+      type: "annotation",
+      presenterId,
+      op,
+    });
+  };
+
+  // Send our screen share to a peer
+  const shareScreenWith = (peerId: string, screenStream: MediaStream) => {
+    const peerInstance = peerRef.current;
+    if (!peerInstance || outgoingScreenCalls.current[peerId]) return;
+
+    try {
+      const call = peerInstance.call(peerId, screenStream, {
+        metadata: { isScreenShare: true },
+      });
+      if (!call) return;
+
+      outgoingScreenCalls.current[peerId] = call;
+      sendMessage(dataConnections.current[peerId], {
+        type: "annotation",
+        presenterId: peerInstance.id,
+        op: { op: "sync", annotations: localAnnotations.current.items },
+      });
+      sendMessage(dataConnections.current[peerId], {
+        type: "annotation-access",
+        allowed: viewersCanAnnotateRef.current,
+      });
+      sendMessage(dataConnections.current[peerId], {
+        type: "cursor-presence",
+        enabled: showCursorsRef.current,
+      });
+
+      call.on("close", () => {
+        if (outgoingScreenCalls.current[peerId] === call) {
+          delete outgoingScreenCalls.current[peerId];
+        }
+      });
+      call.on("error", (err) => {
+        console.error(`Error sharing screen with ${peerId}:`, err);
+      });
+    } catch (err) {
+      console.error(`Error sharing screen with ${peerId}:`, err);
+    }
+  };
+
+  // Place the media call to a peer that passed admission
+  const startCall = (peerId: string) => {
+    const peerInstance = peerRef.current;
+    const stream = localStreamRef.current;
+    if (!peerInstance || !stream || connections.current[peerId]) return;
+
+    console.log(`Calling peer ${peerId}`);
+
+    try {
+      const call = peerInstance.call(peerId, stream);
+      if (!call) {
+        console.error(`Failed to create outgoing call to ${peerId}`);
+        return;
+      }
+      attachCall(call);
+    } catch (err) {
+      console.error(`Error calling peer ${peerId}:`, err);
+    }
+  };
+
+  // Answer a media call from a peer that passed admission
+  const answerCall = (call: MediaConnection) => {
+    try {
+      // Answer incoming call with local stream
+      call.answer(localStreamRef.current || undefined);
+      attachCall(call);
+    } catch (err) {
+      console.error("Error answering call:", err);
+    }
+  };
+
+  // Drop every connection we have with a peer
+  const disconnectPeer = (peerId: string) => {
+    // Closing the call removes the stream via its close handler
+    connections.current[peerId]?.close();
+    dataConnections.current[peerId]?.close();
+    pendingCalls.current[peerId]?.close();
+    delete pendingCalls.current[peerId];
+    pendingScreenCalls.current[peerId]?.close();
+    delete pendingScreenCalls.current[peerId];
+    outgoingScreenCalls.current[peerId]?.close();
+    removeScreenShare(peerId);
+    // Whatever it pointed at on our share goes away for everyone
+    const myPeerId = peerRef.current?.id;
+    if (screenShareStreamRef.current && myPeerId) {
+      localPointers.current.remove(peerId);
+      (["laser", "cursor"] as PointerMode[]).forEach((mode) => {
+        relayPointer(
+          { type: "pointer", presenterId: myPeerId, pointerId: peerId, mode, position: null },
+          peerId,
+        );
+      });
+    }
+    dialedPeers.current.delete(peerId);
+    pendingDials.current[peerId]?.close();
+    delete pendingDials.current[peerId];
+    delete policyReports.current[peerId];
+    delete lastSeen.current[peerId];
+
+    // A peer that vanished may never fire close events, don't wait for them
+    delete connections.current[peerId];
+    setRemoteStreams((prev) => prev.filter((s) => s.id !== peerId));
+  };
+
+  // Tell everyone we're leaving so they drop us right away instead of
+  // waiting for us to time out
+  const announceLeave = () => {
+    Object.values(dataConnections.current).forEach((connection) => {
+      sendMessage(connection, { type: "leave" });
+    });
+    transportRef.current?.leave();
+    transportRef.current = null;
+  };
+
+  // The peer proved it knows the room password: let its media through
+  const handlePeerVerified = (peerId: string) => {
+    console.log(`Peer ${peerId} passed admission`);
+
+    const pendingCall = pendingCalls.current[peerId];
+    if (pendingCall) {
+      delete pendingCalls.current[peerId];
+      answerCall(pendingCall);
+    }
+
+    if (dialedPeers.current.has(peerId)) {
+      dialedPeers.current.delete(peerId);
+      startCall(peerId);
+    }
+
+    const pendingScreenCall = pendingScreenCalls.current[peerId];
+    if (pendingScreenCall) {
+      delete pendingScreenCalls.current[peerId];
+      answerScreenShare(pendingScreenCall);
+    }
+
+    // Someone who joins while we present sees the screen right away
+    if (screenShareStreamRef.current) {
+      shareScreenWith(peerId, screenShareStreamRef.current);
+    }
+
+    if (peerAuth.current[peerId]?.accepted) syncSharedState(peerId);
+  };
+
+  // Introduce ourselves and bring a peer's board and chat up to date once
+  // both sides have admitted each other. Before that our messages would be
+  // ignored, or reach a newcomer still in the waiting room. Both sides send
+  // what they have, merging makes the extra copy harmless.
+  const syncSharedState = (peerId: string) => {
+    const connection = dataConnections.current[peerId];
+    sendMessage(connection, { type: "roster", participant: localParticipantRef.current });
+    // A busy board takes several messages, tombstones included
+    batchBoardEntries(whiteboard.current.state).forEach((entries) => {
+      sendMessage(connection, { type: "board", entries });
+    });
+    if (chatHistory.current.length > 0) {
+      sendMessage(connection, { type: "chat-history", entries: chatHistory.current });
+    }
+    // Files that were on their way when the connection dropped
+    fileTransferManager.current.resume(peerId);
+  };
+
+  // Let a peer that passed the password check into the room
+  const completeAdmission = (peerId: string) => {
+    const auth = peerAuth.current[peerId];
+    if (!auth) return;
+
+    auth.verified = true;
+    auth.waiting = false;
+    knownPeers.current.add(peerId);
+    sendMessage(dataConnections.current[peerId], { type: "auth-result", ok: true });
+    handlePeerVerified(peerId);
+    recordJoin(peerId);
+  };
+
+  // Host-only: note the order members got in, for host succession. Members
+  // that have left since are dropped from it along the way.
+  const recordJoin = (peerId: string) => {
+    const policy = roomPolicyRef.current;
+    if (!policy || policy.hostId !== peerRef.current?.id) return;
+    if (policy.joinOrder.includes(peerId)) return;
+
+    const joinOrder = policy.joinOrder.filter((id) => dataConnections.current[id]);
+    const nextPolicy = { ...policy, joinOrder: [...joinOrder, peerId] };
+    applyRoomPolicy(nextPolicy);
+    broadcastMessage({ type: "policy", policy: nextPolicy });
+  };
+
+  // Host-only: let someone in the waiting room in, or turn them away
+  const decideWaitingPeer = (peerId: string, admit: boolean) => {
+    if (!isRoomHost) return;
+
+    setWaitingPeers((prev) => prev.filter((p) => p.peerId !== peerId));
+    broadcastMessage({ type: "admission", peerId, admit });
+
+    if (admit) {
+      completeAdmission(peerId);
+    } else {
+      sendMessage(dataConnections.current[peerId], {
+        type: "admission",
+        peerId,
+        admit: false,
+        reason: "The host did not let you into the meeting.",
+      });
+      // Give the decision a moment to arrive before hanging up
+      window.setTimeout(() => disconnectPeer(peerId), 500);
+    }
+  };
+
+  const admitAllWaiting = () => {
+    waitingPeers.forEach(({ peerId }) => decideWaitingPeer(peerId, true));
+  };
+
+  // Let the host know someone is knocking, wherever they are in the UI
+  const notifyKnock = (peerId: string, knockName: string) => {
+    toast({
+      title: "Someone wants to join",
+      description: `${knockName} is waiting to be let in.`,
+      action: (
+        <div className="flex gap-2">
+          <ToastAction altText="Deny" onClick={() => decideWaitingPeerRef.current(peerId, false)}>
+            Deny
+          </ToastAction>
+          <ToastAction altText="Admit" onClick={() => decideWaitingPeerRef.current(peerId, true)}>
+            Admit
+          </ToastAction>
+        </div>
+      ),
+    });
+  };
+
+  // Toast buttons outlive the render that created them
+  const decideWaitingPeerRef = useRef(decideWaitingPeer);
+  decideWaitingPeerRef.current = decideWaitingPeer;
+
+  // Carry out a command from the host
+  const handleModeration = (message: ModerationMessage) => {
+    const isTarget = message.targetId === peerRef.current?.id;
+
+    switch (message.action) {
+      case "mute":
+        if (isTarget && isAudioEnabled) {
+          toggleAudio();
+          setErrorMessage("The host muted your microphone.");
+        }
+        break;
+      case "stop-video":
+        if (isTarget && isVideoEnabled) {
+          toggleVideo();
+          setErrorMessage("The host turned off your camera.");
+        }
+        break;
+      case "remove":
+        if (isTarget) {
+          leaveWithNotice("You were removed from the meeting by the host.");
+        } else if (message.targetId) {
+          rememberRemoval(message.targetId);
+          disconnectPeer(message.targetId);
+        }
+        break;
+      case "end-meeting":
+        leaveWithNotice("The host ended the meeting for everyone.");
+        break;
+    }
+  };
+
+  // Keep a removed peer out, under its peer ID and the browser it came from
+  const rememberRemoval = (peerId: string) => {
+    removedPeers.current.add(peerId);
+    const deviceId = peerAuth.current[peerId]?.deviceId;
+    if (deviceId) removedDevices.current.add(deviceId);
+  };
+
+  // Host-only: send a moderation command to the whole room
+  const moderate = (action: ModerationAction, targetId?: string) => {
+    if (!isRoomHost) return;
+
+    broadcastMessage({ type: "moderation", action, targetId });
+
+    if (action === "remove" && targetId) {
+      rememberRemoval(targetId);
+      // Give the command a moment to arrive before hanging up
+      window.setTimeout(() => disconnectPeer(targetId), 500);
+    } else if (action === "end-meeting") {
+      window.setTimeout(leaveRoom, 500);
+    }
+  };
+
+  // Host-only: hand the host role to another member
+  const transferHost = (peerId: string) => {
+    const policy = roomPolicyRef.current;
+    if (!isRoomHost || !policy || !rosterRef.current[peerId]) return;
+
+    // We stay on as the longest-standing member
+    const myPeerId = peerRef.current!.id;
+    const nextPolicy = {
+      ...policy,
+      hostId: peerId,
+      epoch: policy.epoch + 1,
+      joinOrder: [myPeerId, ...policy.joinOrder.filter((id) => id !== myPeerId)],
+    };
+    applyRoomPolicy(nextPolicy);
+    broadcastMessage({ type: "policy", policy: nextPolicy });
+  };
+
+  // Host-only: lock or unlock the room for new joiners
+  const toggleRoomLock = () => {
+    const policy = roomPolicyRef.current;
+    if (!isRoomHost || !policy) return;
+
+    const nextPolicy = { ...policy, locked: !policy.locked };
+    applyRoomPolicy(nextPolicy);
+    broadcastMessage({ type: "policy", policy: nextPolicy });
+  };
+
+  // Handle a message received over a peer's current data connection,
+  // replies go back over that same connection
+  const handleDataMessage = async (
+    peerId: string,
+    message: RoomMessage,
+    connection: DataConnection,
+  ) => {
+    const auth = peerAuth.current[peerId];
+    // A newer connection replaced this one while we were checking a proof
+    const isSuperseded = () => dataConnections.current[peerId] !== connection;
+    const myPeerId = peerRef.current?.id;
+    const roomKey = roomKeyRef.current;
+
+    // Only the admission handshake is allowed before the peer is verified
+    if (!ADMISSION_MESSAGE_TYPES.includes(message.type) && !auth?.verified) {
+      console.warn(`Ignoring ${message.type} from unverified peer ${peerId}`);
+      return;
+    }
+
+    switch (message.type) {
+      case "auth-challenge": {
+        if (!roomKey || !myPeerId) return;
+        const proof = await answerChallenge(roomKey, message.challenge, myPeerId, peerId);
+        if (isSuperseded()) return;
+        sendMessage(connection, { type: "auth-response", proof, deviceId: getDeviceId() });
+        break;
+      }
+      case "auth-response": {
+        if (!auth?.challenge || auth.verified || !roomKey || !myPeerId) return;
+
+        const ok = await verifyAnswer(roomKey, auth.challenge, peerId, myPeerId, message.proof);
+        // The challenge belonged to that connection, its answer means nothing now
+        if (isSuperseded()) return;
+        if (typeof message.deviceId === "string" && message.deviceId) {
+          auth.deviceId = message.deviceId.slice(0, 64);
+        }
+
+        // Even with the right password, removed peers stay out and a locked
+        // room only lets its existing members back in
+        const decision = decideAdmission({
+          proofOk: ok,
+          isNewcomer: isNewcomer(peerId, isAdmittedRef.current, roomPolicyRef.current),
+          policy: roomPolicyRef.current,
+          isKnown: knownPeers.current.has(peerId),
+          isRemoved:
+            removedPeers.current.has(peerId) ||
+            (!!auth.deviceId && removedDevices.current.has(auth.deviceId)),
+        });
+
+        if (decision === "wait") {
+          // Right password, but the host has to let them in first
+          console.log(`Peer ${peerId} is in the waiting room`);
+          auth.waiting = true;
+          sendMessage(connection, { type: "waiting" });
+        } else if (decision === "admit") {
+          completeAdmission(peerId);
+        } else {
+          console.warn(`Peer ${peerId} failed admission: ${decision}`);
+          sendMessage(connection, { type: "auth-result", ok: false, reason: decision });
+          // Give the rejection a moment to arrive before hanging up
+          window.setTimeout(() => disconnectPeer(peerId), 1000);
+        }
+        break;
+      }
+      case "auth-result": {
+        if (!auth) return;
+
+        if (message.ok) {
+          auth.accepted = true;
+          isAdmittedRef.current = true;
+          setIsWaitingForHost(false);
+          if (roomPolicyRef.current) {
+            sendMessage(connection, { type: "policy", policy: roomPolicyRef.current });
+          }
+          if (auth.verified) syncSharedState(peerId);
+        } else if (!isAdmittedRef.current) {
+          // We are the newcomer and the room turned us away
+          console.warn(`Rejected by ${peerId}: ${message.reason}`);
+          releaseResources();
+          setAdmissionError(message.reason || "incorrect-password");
+        } else {
+          // A newcomer with a different password, not our problem
+          disconnectPeer(peerId);
+        }
+        break;
+      }
+      case "waiting":
+        // Our password was fine, now the host has to let us in
+        if (!isAdmittedRef.current) {
+          setIsWaitingForHost(true);
+          sendMessage(connection, { type: "knock", userName: userNameFromState });
+        }
+        break;
+      case "knock":
+        // Only the host keeps the list of people waiting to get in
+        if (auth?.waiting && isRoomHost && !waitingPeers.some((p) => p.peerId === peerId)) {
+          const knockName = String(message.userName || "Someone").slice(0, 64);
+          setWaitingPeers((prev) => [...prev, { peerId, userName: knockName }]);
+          notifyKnock(peerId, knockName);
+        }
+        break;
+      case "admission":
+        if (message.peerId === peerRef.current?.id) {
+          // The host decided about us
+          if (!message.admit) {
+            leaveWithNotice(message.reason || "The host did not let you into the meeting.");
+          }
+        } else if (peerId === roomPolicyRef.current?.hostId) {
+          // The host decided about someone in the waiting room
+          if (message.admit) {
+            knownPeers.current.add(message.peerId);
+            if (peerAuth.current[message.peerId]?.waiting) {
+              completeAdmission(message.peerId);
+            }
+          } else {
+            disconnectPeer(message.peerId);
+          }
+        }
+        break;
+      case "roster": {
+        const participant = normalizeParticipant(peerId, message.participant);
+        updateRoster({ ...rosterRef.current, [peerId]: participant });
+
+        // The presenter stopped sharing, don't wait for the call to wind down
+        if (!participant.isScreenSharing && incomingScreenCalls.current[peerId]) {
+          removeScreenShare(peerId);
+        }
+        break;
+      }
+      case "policy": {
+        const policy = normalizePolicy(message.policy);
+        const current = roomPolicyRef.current;
+        if (!policy) return;
+
+        // Without a policy of our own, any member could claim to be host
+        if (!current) {
+          if (!isTrustedFirstPolicy(peerId, policy, policyReports.current)) {
+            console.log(`Holding policy from ${peerId} until the host or another member confirms it`);
+            policyReports.current[peerId] = policy;
+            return;
+          }
+          policyReports.current = {};
+        }
+
+        // After the first policy only the host's, or a newer one from the
+        // peer that succeeds the host we know
+        const fromHost = peerId === current?.hostId && policy.epoch >= current.epoch;
+        const fromSuccessor =
+          current !== null &&
+          policy.epoch > current.epoch &&
+          policy.hostId === peerId &&
+          electSuccessor(getRoomMembers(), current.hostId, current.joinOrder) === peerId;
+
+        if (current && !fromHost && !fromSuccessor) {
+          console.warn(`Ignoring policy from non-host ${peerId}`);
+          return;
+        }
+
+        const becameHost = policy.hostId === myPeerId && current?.hostId !== myPeerId;
+        applyRoomPolicy(policy);
+        if (becameHost && current) assumeHostRole();
+        break;
+      }
+      case "moderation":
+        if (peerId !== roomPolicyRef.current?.hostId) {
+          console.warn(`Ignoring ${message.action} from non-host ${peerId}`);
+          return;
+        }
+        handleModeration(message);
+        break;
+      case "annotation": {
+        const op = normalizeAnnotationOp(message.op);
+        if (!op) return;
+
+        if (message.presenterId === myPeerId) {
+          // A viewer of our screen share
+          if (!outgoingScreenCalls.current[peerId]) return;
+          const accepted = acceptViewerAnnotation(peerId, op);
+          if (!accepted) {
+            console.warn(`Ignoring annotation from viewer ${peerId}`);
+            return;
+          }
+          localAnnotations.current.apply(accepted);
+          relayAnnotation(accepted, peerId);
+        } else if (message.presenterId === peerId) {
+          // The presenter, with its own edits or relayed ones
+          getRemoteAnnotations(peerId).apply(op);
+        }
+        break;
+      }
+      case "annotation-access":
+        setAnnotationAccess((prev) => ({ ...prev, [peerId]: Boolean(message.allowed) }));
+        break;
+      case "pointer": {
+        const mode: PointerMode = message.mode === "cursor" ? "cursor" : "laser";
+        const position = normalizePointerPosition(message.position);
+
+        if (message.presenterId === myPeerId) {
+          // A viewer of our screen share. Lasers need the annotation
+          // permission, cursors that we show them.
+          if (!outgoingScreenCalls.current[peerId]) return;
+          const allowed = mode === "laser" ? viewersCanAnnotateRef.current : showCursorsRef.current;
+          if (!allowed) return;
+
+          const name = rosterRef.current[peerId]?.userName || "Participant";
+          localPointers.current.update({ peerId, name, color: authorColor(peerId), mode, position });
+          relayPointer(
+            { type: "pointer", presenterId: myPeerId, pointerId: peerId, name, mode, position },
+            peerId,
+          );
+        } else if (message.presenterId === peerId) {
+          // The presenter, pointing itself or relaying a viewer
+          const pointerId = typeof message.pointerId === "string" ? message.pointerId : peerId;
+          if (pointerId === myPeerId) return;
+          getRemotePointers(peerId).update({
+            peerId: pointerId,
+            name: String(message.name || "Participant").slice(0, 64),
+            color: authorColor(pointerId),
+            mode,
+            position,
+          });
+        }
+        break;
+      }
+      case "cursor-presence":
+        setCursorPresence((prev) => ({ ...prev, [peerId]: Boolean(message.enabled) }));
+        if (!message.enabled) remotePointers.current[peerId]?.clear("cursor");
+        break;
+      case "board":
+        whiteboard.current.merge(normalizeBoardEntries(message.entries));
+        break;
+      case "chat": {
+        const entry = normalizeChatEntry(message.entry);
+        if (!entry) return;
+        // Live messages come from whoever sent them, whatever they claim
+        addChatMessages([
+          {
+            ...entry,
+            senderId: peerId,
+            senderName: rosterRef.current[peerId]?.userName || entry.senderName,
+          },
+        ]);
+        if (!isChatOpen || activeChatThread !== null) {
+          setUnreadChatCount((count) => count + 1);
+        }
+        break;
+      }
+      case "direct": {
+        const entry = normalizeChatEntry(message.entry);
+        if (!entry || !myPeerId) return;
+        addDirectMessage(peerId, {
+          ...entry,
+          senderId: peerId,
+          senderName: rosterRef.current[peerId]?.userName || entry.senderName,
+          recipientId: myPeerId,
+        });
+        if (!isChatOpen || activeChatThread !== peerId) {
+          setUnreadDirect((prev) => ({ ...prev, [peerId]: (prev[peerId] || 0) + 1 }));
+        }
+        break;
+      }
+      case "chat-history":
+        if (!Array.isArray(message.entries)) return;
+        addChatMessages(
+          message.entries
+            .slice(-CHAT_HISTORY_LIMIT)
+            .map(normalizeChatEntry)
+            .filter((entry): entry is ChatEntry => !!entry),
+        );
+        break;
+      case "file-offer":
+      case "file-response":
+      case "file-chunk":
+      case "file-done":
+      case "file-cancel":
+        fileTransferManager.current.handleMessage(peerId, message);
+        break;
+      case "heartbeat":
+        // Only there to refresh lastSeen
+        break;
+      case "leave":
+        console.log(`Peer ${peerId} is leaving`);
+        // Gone for good, unlike a dropped connection
+        fileTransferManager.current.abandon(peerId);
+        disconnectPeer(peerId);
+        break;
+      default:
+        console.warn(`Unknown message from ${peerId}:`, message);
+    }
+  };
+
+  // Connection handlers are registered once, so route through a ref
+  const dataMessageHandlerRef = useRef(handleDataMessage);
+  dataMessageHandlerRef.current = handleDataMessage;
+
+  // Wire up the data connection that carries room messages for a peer
+  const setupDataConnection = (connection: DataConnection) => {
+    const peerId = connection.peer;
+    const settleDial = () => {
+      if (pendingDials.current[peerId] === connection) delete pendingDials.current[peerId];
+    };
+
+    connection.on("open", () => {
+      console.log(`Data connection with ${peerId} open`);
+      settleDial();
+
+      // Replace any older connection to the same peer
+      const previous = dataConnections.current[peerId];
+      dataConnections.current[peerId] = connection;
+      if (previous && previous !== connection) previous.close();
+
+      lastSeen.current[peerId] = Date.now();
+
+      // Challenge the peer to prove it knows the room password
+      const challenge = createChallenge();
+      peerAuth.current[peerId] = { challenge, verified: false, accepted: false };
+      sendMessage(connection, { type: "auth-challenge", challenge });
+    });
+
+    connection.on("data", (data) => {
+      // Only the current connection speaks for the peer, a replaced one
+      // could answer a challenge that is no longer ours
+      if (!isRoomMessage(data) || dataConnections.current[peerId] !== connection) return;
+      lastSeen.current[peerId] = Date.now();
+      dataMessageHandlerRef.current(peerId, data, connection).catch((err) => {
+        console.error(`Error handling message from ${peerId}:`, err);
+      });
+    });
+
+    connection.on("close", () => {
+      console.log(`Data connection with ${peerId} closed`);
+      settleDial();
+      if (dataConnections.current[peerId] !== connection) return;
+
+      delete dataConnections.current[peerId];
+      delete peerAuth.current[peerId];
+      // Held until the peer is back, see syncSharedState
+      fileTransferManager.current.interrupt(peerId);
+      setWaitingPeers((prev) => prev.filter((p) => p.peerId !== peerId));
+
+      const nextRoster = { ...rosterRef.current };
+      delete nextRoster[peerId];
+      updateRoster(nextRoster);
+
+      handleHostLeft(peerId);
+    });
+
+    connection.on("error", (err) => {
+      console.error(`Data connection error with ${peerId}:`, err);
+      settleDial();
+    });
+  };
+
+  // Connect to a peer that announced itself in the room. The media call
+  // follows once both sides passed the admission handshake. Only the peer
+  // with the smaller ID dials, the other one waits to be called.
+  const connectToPeer = (peerId: string) => {
+    const peerInstance = peerRef.current;
+
+    // Already connected to this peer or on the way, nothing to do
+    if (
+      !peerInstance ||
+      connections.current[peerId] ||
+      dataConnections.current[peerId] ||
+      pendingDials.current[peerId]
+    ) {
+      return;
+    }
+    if (!isDialer(peerInstance.id, peerId)) return;
+
+    console.log(`Connecting to peer ${peerId}`);
+    dialedPeers.current.add(peerId);
+
+    try {
+      const connection = peerInstance.connect(peerId, {
+        label: ROOM_CONNECTION_LABEL,
+        reliable: true,
+      });
+      pendingDials.current[peerId] = connection;
+      setupDataConnection(connection);
+    } catch (err) {
+      console.error(`Error connecting to peer ${peerId}:`, err);
+    }
+  };
+
+  // Back on the PeerServer: let the room know and get back to everyone we
+  // were with. Connections that survived the blip are left alone.
+  const rejoinPresentPeers = () => {
+    transportRef.current?.announce();
+
+    presentPeers.current.forEach((peerId) => {
+      if (!dataConnections.current[peerId]) {
+        connectToPeer(peerId);
+      } else if (
+        peerAuth.current[peerId]?.verified &&
+        !connections.current[peerId] &&
+        isDialer(peerRef.current?.id || "", peerId)
+      ) {
+        startCall(peerId);
+      }
+    });
+    presentPeers.current.clear();
+  };
+
   // Initialize peer connection and media streams
   useEffect(() => {
     console.log("VideoRoom mounted with roomId:", actualRoomId);
@@ -88,6 +1440,7 @@ const VideoRoom = ({
 
     // Reset cleanup functions at component mount
     cleanupFunctionsRef.current = [];
+    hasLeftRef.current = false;
 
     if (!actualRoomId) {
       setErrorMessage("Room ID is missing");
@@ -138,97 +1491,160 @@ const VideoRoom = ({
         }
 
         setLocalStream(stream);
+        localStreamRef.current = stream;
+
+        // Derive the admission key before anyone can connect to us
+        roomKeyRef.current = await deriveRoomKey(passwordFromState || "", actualRoomId);
 
         // Create new Peer instance with a random ID and additional configuration
-        const newPeer = new Peer({
+        // Resolve STUN/TURN servers, fetching TURN credentials if configured
+        const iceConfig = await resolveIceConfig();
+        setIceTransportPolicy(iceConfig.rtcConfig.iceTransportPolicy || "all");
+
+        const peerOptions: PeerOptions = {
+          ...getPeerServerOptions(),
           debug: 3, // Log level (0-3)
           config: {
-            iceServers: [
-              { urls: 'stun:stun.l.google.com:19302' },
-              { urls: 'stun:global.stun.twilio.com:3478' }
-            ],
+            ...iceConfig.rtcConfig,
             sdpSemantics: 'unified-plan'
           }
+        };
+        const newPeer = new Peer(peerOptions);
+        let hasJoinedRoom = false;
+
+        // Recover from losing the PeerServer instead of dropping out
+        const reconnector = new PeerReconnector(
+          newPeer,
+          handleReconnectState,
+          rejoinPresentPeers
+        );
+        reconnectorRef.current = reconnector;
+        cleanupFunctionsRef.current.push(() => {
+          reconnector.stop();
+          reconnectorRef.current = null;
+        });
+
+        // Keep time-limited TURN credentials fresh for new and existing calls
+        const stopIceRefresh = scheduleIceRefresh(iceConfig, (refreshed) => {
+          console.log("Refreshed ICE configuration");
+          newPeer.options.config = {
+            ...newPeer.options.config,
+            ...refreshed.rtcConfig,
+          };
+          Object.values(connections.current).forEach((connection) => {
+            if (connection.peerConnection) {
+              applyIceConfig(connection.peerConnection, refreshed.rtcConfig);
+            }
+          });
         });
+        cleanupFunctionsRef.current.push(stopIceRefresh);
 
         newPeer.on("open", (id) => {
+          // Opening again after a reconnect is handled by the reconnector
+          if (hasJoinedRoom) return;
+          hasJoinedRoom = true;
+
           console.log("My peer ID is:", id);
+          whiteboard.current.setPeerId(id);
           console.log("Is host?", isHost);
           console.log("Actual room ID:", actualRoomId);
           setConnectionStatus("connected");
 
-          // Use a shared peer coordination mechanism based on room ID
-          // Instead of host/client model, all peers join a "room" and announce themselves
-          
-          // First, listen for other peers in this room
-          const cleanupListener = listenForPeersInRoom(actualRoomId, id, newPeer);
-          
-          // Then announce our presence to other peers
-          const cleanupAnnouncer = announcePeerInRoom(actualRoomId, id);
-          
+          // The creator starts out as host and owns the room policy
+          if (isHost) {
+            applyRoomPolicy({
+              hostId: id,
+              locked: false,
+              waitingRoom: Boolean(location.state?.waitingRoom),
+              epoch: 0,
+              joinOrder: [],
+            });
+          }
+
+          // All peers join a "room" through the configured signaling
+          // transport and announce themselves to each other
+          const transport = createSignalingTransport(
+            getSignalingTransportKind(),
+            actualRoomId,
+            newPeer,
+            { peerOptions, signalingUrl: getSignalingUrl() }
+          );
+          const unsubscribe = transport.on(handleSignalingEvent);
+          transport.join(id);
+          transportRef.current = transport;
+
+          // Keep announcing periodically to ensure connectivity
+          const intervalId = window.setInterval(() => transport.announce(), 5000);
+
           // Add to cleanup functions
-          if (cleanupListener) cleanupFunctionsRef.current.push(cleanupListener);
-          if (cleanupAnnouncer) cleanupFunctionsRef.current.push(cleanupAnnouncer);
+          cleanupFunctionsRef.current.push(() => {
+            console.log(`Leaving signaling for room ${actualRoomId}`);
+            window.clearInterval(intervalId);
+            unsubscribe();
+            transport.leave();
+            transportRef.current = null;
+          });
+        });
+
+        newPeer.on("connection", (connection) => {
+          if (connection.label !== ROOM_CONNECTION_LABEL) return;
+          console.log("Received data connection from:", connection.peer);
+
+          // The peer should be waiting for us to dial, not dialing itself
+          if (isDialer(newPeer.id, connection.peer)) {
+            console.warn(`Rejecting data connection from ${connection.peer}, we dial`);
+            connection.close();
+            return;
+          }
+          setupDataConnection(connection);
         });
 
         newPeer.on("call", (call) => {
           console.log("Received call from:", call.peer);
-          
-          try {
-            // Answer incoming call with local stream
-            call.answer(stream);
-            
-            // Handle incoming stream
-            call.on("stream", (remoteStream) => {
-              console.log("Received stream from caller:", call.peer);
-              
-              // Add to remote streams if not already present
-              setRemoteStreams((prev) => {
-                if (!prev.find((s) => s.id === call.peer)) {
-                  console.log("Adding new remote stream from:", call.peer);
-                  setParticipantCount((prevCount) => prevCount + 1);
-                  return [
-                    ...prev,
-                    {
-                      id: call.peer,
-                      stream: remoteStream,
-                      userName: "Participant",
-                      connectionQuality: "good",
-                    },
-                  ];
-                }
-                return prev;
-              });
-            });
-            
-            // Handle call errors
-            call.on('error', (err) => {
-              console.error(`Error in incoming call from ${call.peer}:`, err);
-            });
-            
-            // Handle call closing
-            call.on('close', () => {
-              console.log(`Incoming call from ${call.peer} closed`);
-              
-              // Remove from remote streams
-              setRemoteStreams((prev) => 
-                prev.filter((s) => s.id !== call.peer)
-              );
-              
-              // Update participant count
-              setParticipantCount((prevCount) => 
-                Math.max(1, prevCount - 1)
-              );
-            });
 
-            // Store the connection
-            connections.current[call.peer] = call;
-          } catch (err) {
-            console.error("Error answering call:", err);
+          // Screen shares are extra calls from whoever shares, they must not
+          // replace the camera call
+          if (call.metadata?.isScreenShare) {
+            if (peerAuth.current[call.peer]?.verified) {
+              answerScreenShare(call);
+            } else {
+              console.log(`Holding screen share from ${call.peer} until admission`);
+              pendingScreenCalls.current[call.peer]?.close();
+              pendingScreenCalls.current[call.peer] = call;
+            }
+            return;
+          }
+
+          // Camera calls come from the dialing side only
+          if (isDialer(newPeer.id, call.peer)) {
+            console.warn(`Rejecting call from ${call.peer}, we dial`);
+            call.close();
+            return;
+          }
+
+          // Only answer peers that passed admission, park the rest
+          if (peerAuth.current[call.peer]?.verified) {
+            answerCall(call);
+          } else {
+            console.log(`Holding call from ${call.peer} until admission`);
+            pendingCalls.current[call.peer]?.close();
+            pendingCalls.current[call.peer] = call;
           }
         });
 
         newPeer.on("error", (err) => {
+          // A peer that left before we reached it is not fatal for us
+          if (err.type === "peer-unavailable") {
+            console.warn("Peer unavailable:", err.message);
+            return;
+          }
+
+          // Losing the server after we joined is the reconnector's business
+          if (hasJoinedRoom && RECOVERABLE_PEER_ERRORS.includes(err.type)) {
+            console.warn(`Peer server connection problem (${err.type}):`, err.message);
+            return;
+          }
+
           console.error("Peer connection error:", err);
           setErrorMessage("Connection error: " + err.message);
           setConnectionStatus("error");
@@ -236,10 +1652,10 @@ const VideoRoom = ({
 
         newPeer.on("disconnected", () => {
           console.log("Peer disconnected");
-          setConnectionStatus("disconnected");
         });
 
         setPeer(newPeer);
+        peerRef.current = newPeer;
       } catch (err) {
         console.error("Failed to initialize:", err);
         setErrorMessage("Failed to initialize video chat");
@@ -247,167 +1663,33 @@ const VideoRoom = ({
       }
     };
 
-    // Function to listen for peers announcing themselves in the room
-    const listenForPeersInRoom = (roomId, myPeerId, peerInstance) => {
-      console.log(`Listening for peers in room ${roomId}, my ID: ${myPeerId}`);
-      
-      // Use BroadcastChannel API for peers to discover each other
-      let channel: BroadcastChannel | null = null;
-      
-      try {
-        channel = new BroadcastChannel(`room-${roomId}`);
-        
-        const messageHandler = (event: MessageEvent) => {
-          try {
-            const { peerId, action } = event.data;
-            
-            // Ignore our own announcements
-            if (peerId === myPeerId) return;
-            
-            console.log(`Received ${action} from peer ${peerId} in room ${roomId}`);
-            
-            if (action === 'join') {
-              // Call the newly joined peer with our stream
-              if (localStream) {
-                console.log(`Calling peer ${peerId}`);
-                
-                try {
-                  // Create a media connection to the remote peer
-                  const call = peerInstance.call(peerId, localStream);
-                  
-                  if (call) {
-                    // Store the connection
-                    connections.current[peerId] = call;
-                    
-                    // Set up connection event handlers
-                    call.on('stream', (remoteStream) => {
-                      console.log(`Received stream from peer ${peerId} via outgoing call`);
-                      
-                      // Add the remote stream to our list
-                      setRemoteStreams((prev) => {
-                        // Don't add if we already have this stream
-                        if (!prev.find((s) => s.id === peerId)) {
-                          setParticipantCount((prevCount) => prevCount + 1);
-                          return [
-                            ...prev,
-                            {
-                              id: peerId,
-                              stream: remoteStream,
-                              userName: "Remote User",
-                              connectionQuality: "good",
-                            },
-                          ];
-                        }
-                        return prev;
-                      });
-                    });
-                    
-                    call.on('error', (err) => {
-                      console.error(`Error in outgoing call to ${peerId}:`, err);
-                    });
-                    
-                    call.on('close', () => {
-                      console.log(`Outgoing call to ${peerId} closed`);
-                      // Remove from connections
-                      delete connections.current[peerId];
-                      
-                      // Remove from remote streams
-                      setRemoteStreams((prev) => 
-                        prev.filter((s) => s.id !== peerId)
-                      );
-                      
-                      // Update participant count
-                      setParticipantCount((prevCount) => 
-                        Math.max(1, prevCount - 1)
-                      );
-                    });
-                  } else {
-                    console.error(`Failed to create outgoing call to ${peerId}`);
-                  }
-                } catch (err) {
-                  console.error(`Error calling peer ${peerId}:`, err);
-                }
-              } else {
-                console.warn(`Cannot call peer ${peerId} without local stream`);
-              }
-            }
-          } catch (err) {
-            console.error("Error processing BroadcastChannel message:", err);
-          }
-        };
-        
-        channel.onmessage = messageHandler;
-      } catch (err) {
-        console.error("Error creating BroadcastChannel:", err);
-        return null;
+    const handleReconnectState = (state: ReconnectState) => {
+      setReconnectState(state);
+
+      if (state.status === "reconnecting") {
+        setConnectionStatus("reconnecting");
+        // Remember who was here, some connections may drop while we're away
+        [
+          ...Object.keys(connections.current),
+          ...Object.keys(dataConnections.current),
+        ].forEach((peerId) => presentPeers.current.add(peerId));
+      } else if (state.status === "connected") {
+        setConnectionStatus("connected");
+      } else {
+        setConnectionStatus("error");
       }
-      
-      // Clean up when component unmounts
-      return () => {
-        try {
-          if (channel) {
-            console.log(`Closing BroadcastChannel for room ${roomId}`);
-            channel.close();
-            channel = null;
-          }
-        } catch (err) {
-          console.error("Error closing BroadcastChannel:", err);
-        }
-      };
     };
-    
-    // Function to announce our presence in the room
-    const announcePeerInRoom = (roomId, myPeerId) => {
-      console.log(`Announcing presence in room ${roomId}, my ID: ${myPeerId}`);
-      
-      let channel: BroadcastChannel | null = null;
-      let intervalId: number | null = null;
-      
-      try {
-        channel = new BroadcastChannel(`room-${roomId}`);
-        
-        // Function to send announcement
-        const sendAnnouncement = () => {
-          try {
-            if (channel) {
-              channel.postMessage({
-                peerId: myPeerId,
-                action: 'join'
-              });
-            }
-          } catch (err) {
-            console.error("Error sending announcement:", err);
-          }
-        };
-        
-        // Send initial announcement
-        sendAnnouncement();
-        
-        // Keep announcing periodically to ensure connectivity
-        intervalId = window.setInterval(sendAnnouncement, 5000);
-      } catch (err) {
-        console.error("Error setting up BroadcastChannel for announcements:", err);
-        return null;
+
+    // Handle presence events delivered by the signaling transport
+    const handleSignalingEvent = (event: SignalingEvent) => {
+      const { peerId, action } = event;
+      console.log(`Received ${action} from peer ${peerId} in room ${actualRoomId}`);
+
+      if (action === "join" || action === "announce") {
+        connectToPeer(peerId);
+      } else if (action === "leave") {
+        disconnectPeer(peerId);
       }
-      
-      // Return cleanup function to clear interval
-      return () => {
-        try {
-          if (intervalId !== null) {
-            console.log(`Clearing announcement interval for room ${roomId}`);
-            window.clearInterval(intervalId);
-            intervalId = null;
-          }
-          
-          if (channel) {
-            console.log(`Closing announcement BroadcastChannel for room ${roomId}`);
-            channel.close();
-            channel = null;
-          }
-        } catch (err) {
-          console.error("Error cleaning up announcements:", err);
-        }
-      };
     };
 
     initPeer();
@@ -415,6 +1697,7 @@ const VideoRoom = ({
     return () => {
       // Cleanup function
       console.log("Cleaning up VideoRoom component");
+      hasLeftRef.current = true;
       
       // Execute all cleanup functions
       cleanupFunctionsRef.current.forEach(cleanup => {
@@ -429,28 +1712,115 @@ const VideoRoom = ({
       cleanupFunctionsRef.current = [];
       
       // Stop all media tracks
-      if (localStream) {
+      if (localStreamRef.current) {
         console.log("Stopping local stream tracks");
-        localStream.getTracks().forEach((track) => {
+        localStreamRef.current.getTracks().forEach((track) => {
           console.log(`Stopping track: ${track.kind}`);
           track.stop();
         });
       }
       
-      if (screenShareStream) {
-        console.log("Stopping screen share stream tracks");
-        screenShareStream.getTracks().forEach((track) => track.stop());
-      }
-      
       // Disconnect and destroy peer
-      if (peer) {
+      if (peerRef.current) {
         console.log("Disconnecting peer");
-        peer.disconnect();
-        peer.destroy();
+        peerRef.current.disconnect();
+        peerRef.current.destroy();
+        peerRef.current = null;
       }
     };
   }, [actualRoomId, userIdFromState, isHost]);
 
+  // Keep everyone's roster record of us in sync with our media state and role
+  useEffect(() => {
+    broadcastMessage({ type: "roster", participant: localParticipantRef.current });
+  }, [isAudioEnabled, isVideoEnabled, isScreenSharing, userNameFromState, isRoomHost]);
+
+  // Heartbeat every peer and evict the ones that went silent, so the grid
+  // and our connections only hold peers that are actually there
+  useEffect(() => {
+    const intervalId = window.setInterval(() => {
+      const now = Date.now();
+      const peerIds = new Set([
+        ...Object.keys(dataConnections.current),
+        ...Object.keys(connections.current),
+        ...Object.keys(pendingCalls.current),
+        // A dial that never opens gets dropped so the peer can be dialed again
+        ...Object.keys(pendingDials.current),
+      ]);
+
+      peerIds.forEach((peerId) => {
+        // Start the clock for peers we only know through a call
+        if (lastSeen.current[peerId] === undefined) lastSeen.current[peerId] = now;
+
+        if (now - lastSeen.current[peerId] > PEER_TIMEOUT) {
+          console.warn(`No heartbeat from ${peerId}, evicting`);
+          disconnectPeer(peerId);
+        } else {
+          sendMessage(dataConnections.current[peerId], { type: "heartbeat" });
+        }
+      });
+    }, HEARTBEAT_INTERVAL);
+
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  // Mirror transfers into state and speak up when someone offers us a file
+  useEffect(() => {
+    const manager = fileTransferManager.current;
+    const offered = new Set<string>();
+
+    const unsubscribe = manager.subscribe(() => {
+      setFileTransfers(manager.items);
+      manager.items.forEach((transfer) => {
+        if (transfer.status === "incoming" && !offered.has(transfer.id)) {
+          offered.add(transfer.id);
+          notifyFileOffer(transfer);
+        }
+      });
+    });
+
+    return () => {
+      unsubscribe();
+      manager.dispose();
+    };
+  }, []);
+
+  // Say goodbye when the tab closes, unmounting never runs then
+  useEffect(() => {
+    const handlePageHide = () => {
+      hasLeftRef.current = true;
+      announceLeave();
+      peerRef.current?.destroy();
+    };
+
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, []);
+
+  // Poll the selected ICE candidate pair of every call for the debug panel
+  useEffect(() => {
+    const updateCandidatePairs = async () => {
+      const pairs: Record<string, SelectedCandidatePair> = {};
+
+      await Promise.all(
+        Object.entries(connections.current).map(async ([peerId, connection]) => {
+          try {
+            if (!connection.peerConnection) return;
+            const pair = await getSelectedCandidatePair(connection.peerConnection);
+            if (pair) pairs[peerId] = pair;
+          } catch (err) {
+            console.error(`Error reading ICE stats for ${peerId}:`, err);
+          }
+        })
+      );
+
+      setCandidatePairs(pairs);
+    };
+
+    const intervalId = window.setInterval(updateCandidatePairs, 3000);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
   // Handle audio toggle
   const toggleAudio = () => {
     if (localStream) {
@@ -597,33 +1967,39 @@ const VideoRoom = ({
         });
 
         setScreenShareStream(screenStream);
+        screenShareStreamRef.current = screenStream;
         setIsScreenSharing(true);
 
         // Share screen with all connected peers
-        Object.values(connections.current).forEach((connection) => {
-          peer?.call(connection.peer, screenStream, {
-            metadata: { isScreenShare: true },
-          });
+        Object.keys(connections.current).forEach((peerId) => {
+          shareScreenWith(peerId, screenStream);
         });
 
         // Handle when user stops screen sharing
-        screenStream.getVideoTracks()[0].onended = () => {
-          setIsScreenSharing(false);
-          setIsAnnotating(false);
-          setScreenShareStream(null);
-        };
+        screenStream.getVideoTracks()[0].onended = stopScreenShare;
       } catch (err) {
         console.error("Error sharing screen:", err);
       }
     } else {
-      // Stop screen sharing
-      screenShareStream?.getTracks().forEach((track) => track.stop());
-      setIsScreenSharing(false);
-      setIsAnnotating(false);
-      setScreenShareStream(null);
+      stopScreenShare();
     }
   };
 
+  // Stop sharing and hang up the screen share calls so viewers drop the stage
+  const stopScreenShare = () => {
+    screenShareStreamRef.current?.getTracks().forEach((track) => track.stop());
+    screenShareStreamRef.current = null;
+
+    Object.values(outgoingScreenCalls.current).forEach((call) => call.close());
+    outgoingScreenCalls.current = {};
+    localAnnotations.current.apply({ op: "clear" });
+    localPointers.current.clear();
+
+    setIsScreenSharing(false);
+    setIsAnnotating(false);
+    setScreenShareStream(null);
+  };
+
   // Toggle annotation mode
   const toggleAnnotation = () => {
     if (isScreenSharing) {
@@ -631,9 +2007,11 @@ const VideoRoom = ({
     }
   };
 
-  // Leave the room
-  const leaveRoom = () => {
+  // Stop media and close every connection
+  const releaseResources = () => {
     console.log("Leaving room, cleaning up resources");
+    hasLeftRef.current = true;
+    announceLeave();
     
     // Execute all cleanup functions
     try {
@@ -674,35 +2052,152 @@ const VideoRoom = ({
         connection.close();
       });
       connections.current = {};
+      Object.values(dataConnections.current).forEach((connection) => {
+        connection.close();
+      });
+      dataConnections.current = {};
+      Object.values(pendingCalls.current).forEach((connection) => {
+        connection.close();
+      });
+      pendingCalls.current = {};
+      [outgoingScreenCalls, incomingScreenCalls, pendingScreenCalls].forEach((calls) => {
+        Object.values(calls.current).forEach((connection) => connection.close());
+        calls.current = {};
+      });
     } catch (err) {
       console.error("Error closing peer connections:", err);
     }
     
     // Disconnect and destroy peer
     try {
-      if (peer) {
+      if (peerRef.current) {
         console.log("Disconnecting peer");
-        peer.disconnect();
-        peer.destroy();
+        peerRef.current.disconnect();
+        peerRef.current.destroy();
+        peerRef.current = null;
       }
     } catch (err) {
       console.error("Error disconnecting peer:", err);
     }
-    
+  };
+
+  // Leave the room
+  const leaveRoom = () => {
+    releaseResources();
+
     // Navigate back to home
     navigate("/");
   };
 
+  // Camera streams make up the grid, screen shares go on the stage
+  const cameraStreams = remoteStreams.filter((s) => !s.isScreenShare);
+  const remoteScreenShare = remoteStreams.filter((s) => s.isScreenShare).pop();
+
+  // The presenter on stage lets us mark up their screen
+  const canAnnotateRemoteShare =
+    !isScreenSharing && !!remoteScreenShare && !!annotationAccess[remoteScreenShare.id];
+
+  // Put the pen down when the presenter stops sharing or revokes access
+  useEffect(() => {
+    if (!isScreenSharing && !canAnnotateRemoteShare) setIsAnnotating(false);
+  }, [isScreenSharing, canAnnotateRemoteShare]);
+
+  // Everyone whose media we're showing, plus ourselves
+  const participantCount = cameraStreams.length + 1;
+
+  // Everyone in the call, plus people we talked to privately who have left
+  const chatContacts: ChatContact[] = [
+    ...new Set([...Object.keys(roster), ...Object.keys(directMessages)]),
+  ]
+    .filter((peerId) => peerId !== peer?.id)
+    .map((peerId) => ({
+      peerId,
+      name:
+        roster[peerId]?.userName ||
+        directMessages[peerId]?.find((entry) => entry.senderId === peerId)?.senderName ||
+        "Participant",
+      unread: unreadDirect[peerId] || 0,
+      isPresent: Boolean(roster[peerId]),
+    }));
+  const unreadDirectCount = Object.values(unreadDirect).reduce((sum, count) => sum + count, 0);
+  const pendingFileCount = fileTransfers.filter((t) => t.status === "incoming").length;
+
+  // Turned away by the room, explain why instead of hanging
+  if (admissionError) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md p-6 text-center space-y-4">
+          <div className="mx-auto h-12 w-12 rounded-full bg-destructive/10 flex items-center justify-center">
+            <Lock className="h-6 w-6 text-destructive" />
+          </div>
+          <h2 className="text-xl font-semibold text-foreground">
+            {admissionError === "room-locked"
+              ? "Room is locked"
+              : admissionError === "removed"
+                ? "You were removed"
+                : "Incorrect password"}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {admissionError === "room-locked"
+              ? `The host has locked room ${actualRoomId} to new participants.`
+              : admissionError === "removed"
+                ? `The host removed you from room ${actualRoomId}.`
+                : `The password you entered for room ${actualRoomId} is not correct. ` +
+                  "Check it with the person who invited you and try again."}
+          </p>
+          <Button
+            className="w-full"
+            onClick={() => navigate("/", { state: { roomId: actualRoomId } })}
+          >
+            Back to Home
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  // Password accepted, but the host hasn't let us in yet
+  if (isWaitingForHost) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md p-6 text-center space-y-4">
+          <div className="mx-auto h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <DoorOpen className="h-6 w-6 text-primary animate-pulse" />
+          </div>
+          <h2 className="text-xl font-semibold text-foreground">
+            Waiting for the host to let you in
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Room {actualRoomId} has a waiting room. You will join as soon as
+            the host admits you.
+          </p>
+          <Button variant="outline" className="w-full" onClick={leaveRoom}>
+            Leave
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-screen w-full bg-background">
       {/* Room information header */}
       <div className="flex justify-between items-center p-4 border-b">
         <div className="flex items-center space-x-2">
           <h2 className="text-xl font-semibold text-foreground">Room: {actualRoomId}</h2>
-          <Badge variant="outline" className="flex items-center">
-            <Users className="h-3 w-3 mr-1" />
-            {participantCount}
-          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => setIsParticipantsOpen(true)}
+            aria-label="Show participants"
+          >
+            <Badge variant="outline" className="flex items-center cursor-pointer">
+              <Users className="h-3 w-3 mr-1" />
+              {participantCount}
+              {roomPolicy?.locked && <Lock className="h-3 w-3 ml-1" />}
+            </Badge>
+          </Button>
         </div>
         <TooltipProvider>
           <Tooltip>
@@ -718,6 +2213,30 @@ const VideoRoom = ({
         </TooltipProvider>
       </div>
 
+      {/* Lost the PeerServer, the reconnector is on it */}
+      {reconnectState.status === "reconnecting" && (
+        <Alert className="m-4">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <AlertTitle className="text-foreground">Reconnecting…</AlertTitle>
+          <AlertDescription className="text-foreground">
+            Lost the connection to the meeting. Attempt {reconnectState.attempt} of{" "}
+            {reconnectState.maxAttempts}.
+          </AlertDescription>
+        </Alert>
+      )}
+      {reconnectState.status === "failed" && (
+        <Alert variant="destructive" className="m-4">
+          <WifiOff className="h-4 w-4" />
+          <AlertTitle className="text-foreground">Connection lost</AlertTitle>
+          <AlertDescription className="text-foreground flex items-center justify-between gap-4">
+            Could not reconnect to the meeting. Check your network and try again.
+            <Button size="sm" onClick={() => reconnectorRef.current?.retry()}>
+              Try again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Error/Status Message Display */}
       {errorMessage && (
         <Alert variant={connectionStatus === "error" ? "destructive" : "default"} className="m-4">
@@ -733,8 +2252,11 @@ const VideoRoom = ({
         <div className="mt-2 p-2 bg-muted rounded text-xs font-mono whitespace-pre-wrap text-foreground">
           <div><strong>Room ID:</strong> {actualRoomId}</div>
           <div><strong>My Peer ID:</strong> {peer?.id || "Not connected"}</div>
-          <div><strong>Role:</strong> {isHost ? "Host" : "Participant"}</div>
+          <div><strong>Role:</strong> {isRoomHost ? "Host" : "Participant"}</div>
+          <div><strong>Room Locked:</strong> {roomPolicy?.locked ? "Yes" : "No"}</div>
+          <div><strong>Waiting Room:</strong> {roomPolicy?.waitingRoom ? "On" : "Off"}</div>
           <div><strong>Connection Status:</strong> {connectionStatus}</div>
+          <div><strong>ICE Transport Policy:</strong> {iceTransportPolicy}</div>
           <div><strong>Media Status:</strong> 
             Audio: {isAudioEnabled ? "Enabled" : "Disabled"}, 
             Video: {isVideoEnabled ? "Enabled" : "Disabled"}
@@ -745,79 +2267,227 @@ const VideoRoom = ({
             <strong>Connected Peer IDs:</strong>
             <ul className="list-disc pl-4">
               {Object.keys(connections.current).map(id => (
-                <li key={id}>{id}</li>
+                <li key={id}>
+                  {id}
+                  {candidatePairs[id] &&
+                    ` (candidates: ${candidatePairs[id].local} → ${candidatePairs[id].remote}` +
+                    `${candidatePairs[id].protocol ? `, ${candidatePairs[id].protocol}` : ""})`}
+                </li>
               ))}
             </ul>
           </div>
         </div>
       </details>
 
-      {/* Main content area */}
-      <div className="flex-1 relative overflow-hidden p-4">
-        {/* Screen sharing overlay */}
-        {isScreenSharing && screenShareStream && (
-          <div className="absolute inset-0 z-10">
-            <Card className="h-full w-full overflow-hidden">
-              {isAnnotating && (
-                <ScreenShareOverlay
-                  isActive={isAnnotating}
-                  onClose={() => setIsAnnotating(false)}
-                />
-              )}
-              <video
-                className="h-full w-full object-contain"
-                ref={(video) => {
-                  if (video && screenShareStream) {
-                    video.srcObject = screenShareStream;
-                  }
-                }}
-                autoPlay
-                playsInline
-              />
-            </Card>
-          </div>
-        )}
+      {/* Call area with the chat beside it */}
+      <div className="flex flex-1 min-h-0">
+        {/* Main content area */}
+        <div className="flex-1 relative overflow-hidden p-4">
+          {/* Screen sharing overlay */}
+          {isScreenSharing && screenShareStream && (
+            <div className="absolute inset-0 z-10">
+              <ScreenShareStage stream={screenShareStream} isLocal>
+                {(surface, video) => (
+                  <>
+                    {isAnnotating ? (
+                      <ScreenShareOverlay
+                        isActive={isAnnotating}
+                        onClose={() => setIsAnnotating(false)}
+                        doc={localAnnotations.current}
+                        onAnnotationUpdate={(op) => relayAnnotation(op)}
+                        author={{ id: peer?.id || "", name: userNameFromState }}
+                        viewersCanAnnotate={viewersCanAnnotate}
+                        onViewersCanAnnotateChange={changeViewerAnnotation}
+                        showCursors={showCursors}
+                        onShowCursorsChange={changeShowCursors}
+                        onLaserMove={(position) => sendPointer(peer?.id || "", "laser", position)}
+                        surface={surface}
+                        video={video}
+                      />
+                    ) : (
+                      <AnnotationLayer doc={localAnnotations.current} surface={surface} />
+                    )}
+                    <PointerLayer presence={localPointers.current} surface={surface} />
+                  </>
+                )}
+              </ScreenShareStage>
+            </div>
+          )}
 
-        {/* Video grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 h-full">
-          {/* Local video */}
-          {localStream && (
-            <VideoBubble
-              stream={localStream}
-              username={userNameFromState}
-              isLocal={true}
-              isMuted={!isAudioEnabled}
-              isVideoOff={!isVideoEnabled}
-              connectionStatus="connected"
-            />
+          {/* Someone else's screen share */}
+          {!isScreenSharing && remoteScreenShare && (
+            <div className="absolute inset-0 z-10">
+              <ScreenShareStage
+                stream={remoteScreenShare.stream}
+                presenterName={roster[remoteScreenShare.id]?.userName}
+                onCursorMove={
+                  cursorPresence[remoteScreenShare.id]
+                    ? (position) => sendPointer(remoteScreenShare.id, "cursor", position)
+                    : undefined
+                }
+              >
+                {(surface, video) => (
+                  <>
+                    {isAnnotating && canAnnotateRemoteShare ? (
+                      <ScreenShareOverlay
+                        isActive={isAnnotating}
+                        onClose={() => setIsAnnotating(false)}
+                        doc={getRemoteAnnotations(remoteScreenShare.id)}
+                        onAnnotationUpdate={(op) => sendViewerAnnotation(remoteScreenShare.id, op)}
+                        author={{ id: peer?.id || "", name: userNameFromState }}
+                        fixedColor={authorColor(peer?.id || "")}
+                        canClearAll={false}
+                        onLaserMove={(position) =>
+                          sendPointer(remoteScreenShare.id, "laser", position)
+                        }
+                        surface={surface}
+                        video={video}
+                      />
+                    ) : (
+                      <AnnotationLayer
+                        doc={getRemoteAnnotations(remoteScreenShare.id)}
+                        surface={surface}
+                      />
+                    )}
+                    <PointerLayer
+                      presence={getRemotePointers(remoteScreenShare.id)}
+                      surface={surface}
+                    />
+                  </>
+                )}
+              </ScreenShareStage>
+            </div>
           )}
 
-          {/* Remote videos */}
-          {remoteStreams.map((stream) => (
-            <VideoBubble
-              key={stream.id}
-              stream={stream.stream}
-              username={stream.userName || ""}
-              isVideoOff={false}
-              isMuted={false}
-              connectionStatus={
-                stream.connectionQuality === "good" ? "connected" : "poor"
-              }
-            />
-          ))}
+          {/* Shared whiteboard, over any screen share */}
+          {isWhiteboardOpen && (
+            <div className="absolute inset-0 z-20">
+              <Whiteboard
+                doc={whiteboard.current}
+                onBoardUpdate={(entries) =>
+                  batchBoardEntries(entries).forEach((batch) =>
+                    broadcastMessage({ type: "board", entries: batch }),
+                  )
+                }
+                author={{ id: peer?.id || "", name: userNameFromState }}
+                onClose={() => setIsWhiteboardOpen(false)}
+              />
+            </div>
+          )}
+
+          {/* Video grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 h-full">
+            {/* Local video */}
+            {localStream && (
+              <VideoBubble
+                stream={localStream}
+                username={userNameFromState}
+                isLocal={true}
+                isMuted={!isAudioEnabled}
+                isVideoOff={!isVideoEnabled}
+                connectionStatus="connected"
+              />
+            )}
+
+            {/* Remote videos */}
+            {cameraStreams.map((stream) => {
+              const participant = roster[stream.id];
+              return (
+                <VideoBubble
+                  key={stream.id}
+                  stream={stream.stream}
+                  username={participant?.userName || stream.userName || ""}
+                  isVideoOff={participant?.isVideoOff ?? false}
+                  isMuted={participant?.isMuted ?? false}
+                  connectionStatus={
+                    stream.connectionQuality === "good" ? "connected" : "poor"
+                  }
+                />
+              );
+            })}
+          </div>
         </div>
+
+        {isChatOpen && (
+          <ChatPanel
+            messages={
+              activeChatThread ? directMessages[activeChatThread] || [] : chatMessages
+            }
+            localPeerId={peer?.id}
+            contacts={chatContacts}
+            activeThread={activeChatThread}
+            roomUnread={unreadChatCount}
+            onThreadChange={openChatThread}
+            onSend={(text) =>
+              activeChatThread
+                ? sendDirectMessage(activeChatThread, text)
+                : sendChatMessage(text)
+            }
+            onClose={toggleChat}
+          />
+        )}
       </div>
 
+      {/* Participants and host controls */}
+      <ParticipantsPanel
+        open={isParticipantsOpen}
+        onOpenChange={setIsParticipantsOpen}
+        localParticipant={localParticipant}
+        participants={Object.values(roster).map((participant) => ({
+          ...participant,
+          role: roomPolicy?.hostId === participant.peerId ? "host" : "participant",
+        }))}
+        isHost={isRoomHost}
+        isLocked={roomPolicy?.locked}
+        waitingParticipants={waitingPeers}
+        onAdmit={(peerId) => decideWaitingPeer(peerId, true)}
+        onDeny={(peerId) => decideWaitingPeer(peerId, false)}
+        onAdmitAll={admitAllWaiting}
+        onMute={(peerId) => moderate("mute", peerId)}
+        onStopVideo={(peerId) => moderate("stop-video", peerId)}
+        onRemove={(peerId) => moderate("remove", peerId)}
+        onMakeHost={transferHost}
+        onToggleLock={toggleRoomLock}
+        onEndForAll={() => moderate("end-meeting")}
+        onMessage={(peerId) => {
+          setIsParticipantsOpen(false);
+          openChatThread(peerId);
+        }}
+      />
+
+      {/* File sending and receiving */}
+      <FileTransferPanel
+        open={isFilesOpen}
+        onOpenChange={setIsFilesOpen}
+        transfers={fileTransfers}
+        recipients={Object.values(roster)
+          .filter((participant) => participant.peerId !== peer?.id)
+          .map((participant) => ({ peerId: participant.peerId, name: participant.userName }))}
+        onSend={sendFiles}
+        onAccept={(transferId) => fileTransferManager.current.accept(transferId)}
+        onDecline={(transferId) => fileTransferManager.current.decline(transferId)}
+        onCancel={(transferId) => fileTransferManager.current.cancel(transferId)}
+        onDismiss={(transferId) => fileTransferManager.current.dismiss(transferId)}
+      />
+
       {/* Control panel */}
       <ControlPanel
         isMuted={!isAudioEnabled}
         isVideoEnabled={isVideoEnabled}
         isVideoLoading={isVideoLoading}
         isScreenSharing={isScreenSharing}
+        canAnnotate={isScreenSharing || canAnnotateRemoteShare}
         onToggleAudio={toggleAudio}
         onToggleVideo={toggleVideo}
         onToggleScreenShare={toggleScreenShare}
         onOpenAnnotationTools={() => setIsAnnotating(true)}
+        isWhiteboardOpen={isWhiteboardOpen}
+        onToggleWhiteboard={() => setIsWhiteboardOpen(!isWhiteboardOpen)}
+        isChatOpen={isChatOpen}
+        unreadChatCount={unreadChatCount + unreadDirectCount}
+        onToggleChat={toggleChat}
+        pendingFileCount={pendingFileCount}
+        onOpenFiles={() => setIsFilesOpen(true)}
         onEndCall={leaveRoom}
         roomId={actualRoomId}
         participantCount={participantCount}
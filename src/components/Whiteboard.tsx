@@ -0,0 +1,740 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Toggle } from "@/components/ui/toggle";
+import { Slider } from "@/components/ui/slider";
+import { toast } from "@/components/ui/use-toast";
+import ExportMenu from "@/components/ExportMenu";
+import {
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+} from "@/components/ui/popover";
+import {
+  MousePointer2,
+  Hand,
+  Pencil,
+  Shapes,
+  StickyNote as StickyNoteIcon,
+  Eraser,
+  ArrowUpRight,
+  Square,
+  Circle,
+  Minus,
+  ZoomIn,
+  ZoomOut,
+  X,
+} from "lucide-react";
+import {
+  AnnotationPoint,
+  constrainShapeEnd,
+  createAnnotationId,
+  ShapeAnnotation,
+  ShapeType,
+  StrokeAnnotation,
+} from "@/lib/annotations";
+import {
+  BoardEntry,
+  BoardItem,
+  drawBoardItem,
+  findBoardItemAt,
+  getBoardItemBounds,
+  MAX_STICKY_TEXT,
+  StickyNote,
+  STICKY_COLORS,
+  STICKY_FONT_SIZE,
+  STICKY_LINE_HEIGHT,
+  STICKY_PADDING,
+  STICKY_SIZE,
+  translateBoardItem,
+  WhiteboardDocument,
+} from "@/lib/whiteboard";
+import { exportBoard, ExportFormat, parseBoardJson } from "@/lib/export";
+
+interface WhiteboardProps {
+  /** Our replica of the board, local edits are applied to it directly */
+  doc: WhiteboardDocument;
+  /** Changed entries to send to the other participants */
+  onBoardUpdate?: (entries: BoardEntry[]) => void;
+  /** Who we are, stamped on everything we add */
+  author?: { id: string; name: string };
+  onClose?: () => void;
+}
+
+type BoardTool = "select" | "pan" | "draw" | "shape" | "sticky" | "erase";
+
+/** Part of the board in view, `x` and `y` are its top-left corner in board units */
+interface BoardView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// The parts of a pointer event a point is read from
+type PointerSample = Pick<PointerEvent, "clientX" | "clientY" | "pointerType" | "pressure">;
+
+// What a drag in progress is doing
+type Gesture =
+  | { type: "pan"; startX: number; startY: number; origin: BoardView }
+  | { type: "draw"; stroke: StrokeAnnotation }
+  | { type: "shape"; shape: ShapeAnnotation }
+  | { type: "move"; original: BoardItem; start: AnnotationPoint }
+  | { type: "erase" };
+
+// How often edits in progress are sent, the last state is always sent at the end
+const STREAM_INTERVAL = 50;
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+// Dots every this many board units, doubled until they're far enough apart
+const GRID_SPACING = 24;
+const MIN_GRID_GAP = 12;
+
+// Shapes dragged shorter than this, in screen pixels, are dropped
+const MIN_SHAPE_SIZE = 4;
+
+const tools: { value: BoardTool; label: string; icon: React.ElementType }[] = [
+  { value: "select", label: "Select", icon: MousePointer2 },
+  { value: "pan", label: "Hand", icon: Hand },
+  { value: "draw", label: "Pen", icon: Pencil },
+  { value: "shape", label: "Shapes", icon: Shapes },
+  { value: "sticky", label: "Sticky note", icon: StickyNoteIcon },
+  { value: "erase", label: "Eraser", icon: Eraser },
+];
+
+const shapeTools: { value: ShapeType; label: string; icon: React.ElementType }[] = [
+  { value: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { value: "rectangle", label: "Rectangle", icon: Square },
+  { value: "ellipse", label: "Ellipse", icon: Circle },
+  { value: "line", label: "Line", icon: Minus },
+];
+
+const colors = ["#000000", "#FF3B30", "#FF9500", "#34C759", "#5AC8FA", "#AF52DE"];
+
+const canvasCursors: Partial<Record<BoardTool, string>> = {
+  select: "cursor-default",
+  pan: "cursor-grab",
+  sticky: "cursor-copy",
+};
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Shared whiteboard over the call. The board is unbounded: drag with the hand
+// tool or the middle button to pan, scroll to pan and Ctrl+scroll to zoom.
+const Whiteboard = ({
+  doc,
+  onBoardUpdate = () => {},
+  author,
+  onClose = () => {},
+}: WhiteboardProps) => {
+  const [tool, setTool] = useState<BoardTool>("draw");
+  const [color, setColor] = useState("#000000");
+  const [stickyColor, setStickyColor] = useState(STICKY_COLORS[0]);
+  const [lineWidth, setLineWidth] = useState(3);
+  const [shapeType, setShapeType] = useState<ShapeType>("rectangle");
+  const [view, setView] = useState<BoardView>({ x: 0, y: 0, zoom: 1 });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewRef = useRef(view);
+  const selectedIdRef = useRef<string | null>(null);
+  const editingRef = useRef<{ id: string; text: string } | null>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  const activePointerRef = useRef<number | null>(null);
+  const frameRef = useRef<number | null>(null);
+  // Entries changed since the last send, by item ID so only the latest goes out
+  const unsentRef = useRef(new Map<string, BoardEntry>());
+  const sendTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const { x, y, zoom } = viewRef.current;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Dot grid so panning and zooming can be seen on an empty board
+    let spacing = GRID_SPACING * zoom;
+    while (spacing < MIN_GRID_GAP) spacing *= 2;
+    const offsetX = -((x * zoom) % spacing);
+    const offsetY = -((y * zoom) % spacing);
+    ctx.fillStyle = "#D1D5DB";
+    for (let gx = offsetX; gx < canvas.width; gx += spacing) {
+      for (let gy = offsetY; gy < canvas.height; gy += spacing) {
+        ctx.fillRect(gx - 1, gy - 1, 2, 2);
+      }
+    }
+
+    ctx.setTransform(zoom, 0, 0, zoom, -x * zoom, -y * zoom);
+
+    // A note being edited shows its text in the editor instead
+    const editingId = editingRef.current?.id;
+    doc.items.forEach((item) =>
+      drawBoardItem(
+        ctx,
+        item.id === editingId && item.kind === "sticky" ? { ...item, text: "" } : item,
+      ),
+    );
+
+    const selected = selectedIdRef.current && doc.get(selectedIdRef.current);
+    if (selected) {
+      const box = getBoardItemBounds(ctx, selected);
+      const pad = 4 / zoom;
+      ctx.strokeStyle = "#0A84FF";
+      ctx.lineWidth = 1 / zoom;
+      ctx.setLineDash([4 / zoom, 4 / zoom]);
+      ctx.strokeRect(box.x - pad, box.y - pad, box.width + pad * 2, box.height + pad * 2);
+    }
+  };
+
+  // Redraw at most once per frame
+  const scheduleFrame = () => {
+    if (frameRef.current !== null) return;
+
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      redraw();
+    });
+  };
+
+  const sendUnsent = () => {
+    if (sendTimerRef.current !== null) {
+      clearTimeout(sendTimerRef.current);
+      sendTimerRef.current = null;
+    }
+    if (unsentRef.current.size === 0) return;
+
+    onBoardUpdate([...unsentRef.current.values()]);
+    unsentRef.current.clear();
+  };
+
+  // Local edits go to the replica right away and to peers in batches
+  const commit = (entry: BoardEntry) => {
+    unsentRef.current.set(entry.id, entry);
+    if (sendTimerRef.current === null) {
+      sendTimerRef.current = setTimeout(sendUnsent, STREAM_INTERVAL);
+    }
+  };
+
+  const setItem = (item: BoardItem) => commit(doc.set(item));
+  const deleteItem = (id: string) => commit(doc.delete(id));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(() => {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      redraw();
+    });
+    observer.observe(canvas);
+
+    // Our own edits and everyone else's show up through the document
+    const unsubscribe = doc.subscribe(() => {
+      // Drop the selection once someone else deletes the item
+      if (selectedIdRef.current && !doc.get(selectedIdRef.current)) selectItem(null);
+      scheduleFrame();
+    });
+
+    return () => {
+      observer.disconnect();
+      unsubscribe();
+      sendUnsent();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, [doc]);
+
+  useEffect(redraw, [view, selectedId, editing?.id]);
+
+  const changeView = (next: BoardView) => {
+    viewRef.current = next;
+    setView(next);
+  };
+
+  // Zoom keeping the board point under a screen position in place
+  const zoomAt = (zoom: number, screenX: number, screenY: number) => {
+    const current = viewRef.current;
+    const next = clampZoom(zoom);
+    changeView({
+      x: current.x + screenX / current.zoom - screenX / next,
+      y: current.y + screenY / current.zoom - screenY / next,
+      zoom: next,
+    });
+  };
+
+  const zoomCentered = (zoom: number) => {
+    const canvas = canvasRef.current;
+    if (canvas) zoomAt(zoom, canvas.clientWidth / 2, canvas.clientHeight / 2);
+  };
+
+  // Wheel listeners added by React are passive and can't stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = viewRef.current;
+
+      if (e.ctrlKey || e.metaKey) {
+        const rect = canvas.getBoundingClientRect();
+        zoomAt(
+          current.zoom * Math.exp(-e.deltaY * 0.002),
+          e.clientX - rect.left,
+          e.clientY - rect.top,
+        );
+      } else {
+        changeView({
+          ...current,
+          x: current.x + e.deltaX / current.zoom,
+          y: current.y + e.deltaY / current.zoom,
+        });
+      }
+    };
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  // Keyboard shortcuts, re-bound every render so they see the current state
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA"].includes(target.tagName)) return;
+
+      if ((e.key === "Delete" || e.key === "Backspace") && selectedIdRef.current) {
+        e.preventDefault();
+        deleteItem(selectedIdRef.current);
+        sendUnsent();
+        selectItem(null);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Leaving the select tool drops the selection
+  useEffect(() => {
+    if (tool !== "select") selectItem(null);
+  }, [tool]);
+
+  const selectItem = (id: string | null) => {
+    selectedIdRef.current = id;
+    setSelectedId(id);
+  };
+
+  // Screen position in board units
+  const toBoard = (clientX: number, clientY: number): AnnotationPoint => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const { x, y, zoom } = viewRef.current;
+    return { x: x + (clientX - rect.left) / zoom, y: y + (clientY - rect.top) / zoom };
+  };
+
+  // Pointer position on the board, with the pressure of a pen
+  const getPoint = (e: PointerSample): AnnotationPoint => {
+    const point = toBoard(e.clientX, e.clientY);
+    if (e.pointerType === "pen") point.pressure = e.pressure;
+    return point;
+  };
+
+  const itemAt = (point: AnnotationPoint) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    return ctx ? findBoardItemAt(ctx, doc.items, point, 6 / viewRef.current.zoom) : null;
+  };
+
+  const authorFields = { authorId: author?.id, authorName: author?.name };
+
+  const editSticky = (note: StickyNote) => {
+    editingRef.current = { id: note.id, text: note.text };
+    setEditing(editingRef.current);
+  };
+
+  const commitSticky = () => {
+    const current = editingRef.current;
+    if (!current) return;
+
+    editingRef.current = null;
+    setEditing(null);
+    const note = doc.get(current.id);
+    if (note?.kind === "sticky" && note.text !== current.text) {
+      setItem({ ...note, text: current.text });
+      sendUnsent();
+    }
+  };
+
+  const cancelSticky = () => {
+    editingRef.current = null;
+    setEditing(null);
+  };
+
+  const addSticky = (point: AnnotationPoint) => {
+    const note: StickyNote = {
+      id: createAnnotationId(),
+      kind: "sticky",
+      ...authorFields,
+      x: point.x - STICKY_SIZE / 2,
+      y: point.y - STICKY_SIZE / 2,
+      width: STICKY_SIZE,
+      height: STICKY_SIZE,
+      color: stickyColor,
+      text: "",
+    };
+    setItem(note);
+    sendUnsent();
+    editSticky(note);
+  };
+
+  const eraseAt = (point: AnnotationPoint) => {
+    const item = itemAt(point);
+    if (item) deleteItem(item.id);
+  };
+
+  const saveBoard = async (format: ExportFormat) => {
+    try {
+      await exportBoard(format, doc.items);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  // Add the items of an exported board where they were and bring them into view
+  const importBoard = (text: string) => {
+    let imported: BoardItem[];
+    try {
+      imported = parseBoardJson(text);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't import the whiteboard",
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || imported.length === 0) return;
+
+    imported.forEach(setItem);
+    sendUnsent();
+
+    const boxes = imported.map((item) => getBoardItemBounds(ctx, item));
+    const left = Math.min(...boxes.map((box) => box.x));
+    const top = Math.min(...boxes.map((box) => box.y));
+    const zoom = viewRef.current.zoom;
+    changeView({ x: left - 40 / zoom, y: top - 40 / zoom, zoom });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (activePointerRef.current !== null) return;
+    if (e.pointerType === "mouse" && e.button !== 0 && e.button !== 1) return;
+
+    const point = getPoint(e);
+
+    if (tool === "sticky") {
+      addSticky(point);
+      setTool("select");
+      return;
+    }
+
+    activePointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    // The middle button pans whatever tool is picked
+    if (tool === "pan" || e.button === 1) {
+      gestureRef.current = {
+        type: "pan",
+        startX: e.clientX,
+        startY: e.clientY,
+        origin: viewRef.current,
+      };
+    } else if (tool === "select") {
+      const item = itemAt(point);
+      selectItem(item?.id || null);
+      if (item) gestureRef.current = { type: "move", original: item, start: point };
+    } else if (tool === "erase") {
+      gestureRef.current = { type: "erase" };
+      eraseAt(point);
+    } else if (tool === "shape") {
+      const shape: ShapeAnnotation = {
+        id: createAnnotationId(),
+        kind: "shape",
+        ...authorFields,
+        shape: shapeType,
+        color,
+        width: lineWidth,
+        filled: false,
+        start: { x: point.x, y: point.y },
+        end: { x: point.x, y: point.y },
+      };
+      gestureRef.current = { type: "shape", shape };
+      setItem(shape);
+    } else {
+      const stroke: StrokeAnnotation = {
+        id: createAnnotationId(),
+        kind: "stroke",
+        ...authorFields,
+        tool: "draw",
+        color,
+        width: lineWidth,
+        points: [point],
+      };
+      gestureRef.current = { type: "draw", stroke };
+      setItem(stroke);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    if (e.pointerId !== activePointerRef.current || !gesture) return;
+
+    const point = getPoint(e);
+
+    switch (gesture.type) {
+      case "pan": {
+        const { origin } = gesture;
+        changeView({
+          ...origin,
+          x: origin.x - (e.clientX - gesture.startX) / origin.zoom,
+          y: origin.y - (e.clientY - gesture.startY) / origin.zoom,
+        });
+        break;
+      }
+      case "move":
+        setItem(
+          translateBoardItem(
+            gesture.original,
+            point.x - gesture.start.x,
+            point.y - gesture.start.y,
+          ),
+        );
+        break;
+      case "erase":
+        eraseAt(point);
+        break;
+      case "shape": {
+        const end = e.shiftKey
+          ? constrainShapeEnd(gesture.shape.shape, gesture.shape.start, point, 1, 1)
+          : point;
+        gesture.shape = { ...gesture.shape, end: { x: end.x, y: end.y } };
+        setItem(gesture.shape);
+        break;
+      }
+      case "draw": {
+        // Fast strokes deliver several points per event
+        const samples = e.nativeEvent.getCoalescedEvents?.() || [];
+        const points = samples.length ? samples.map(getPoint) : [point];
+        gesture.stroke = { ...gesture.stroke, points: [...gesture.stroke.points, ...points] };
+        setItem(gesture.stroke);
+        break;
+      }
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerRef.current) return;
+
+    activePointerRef.current = null;
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+
+    // A click with the shape tool leaves nothing behind
+    if (gesture?.type === "shape") {
+      const { start, end } = gesture.shape;
+      const size = Math.hypot(end.x - start.x, end.y - start.y) * viewRef.current.zoom;
+      if (size < MIN_SHAPE_SIZE) deleteItem(gesture.shape.id);
+    }
+
+    sendUnsent();
+  };
+
+  // Double-clicking a note with the select tool edits its text
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (tool !== "select") return;
+
+    const item = itemAt(toBoard(e.clientX, e.clientY));
+    if (item?.kind === "sticky") editSticky(item);
+  };
+
+  const editingNote = editing && doc.get(editing.id);
+
+  return (
+    <div className="absolute inset-0 overflow-hidden rounded-lg border bg-white">
+      <canvas
+        ref={canvasRef}
+        className={`absolute inset-0 w-full h-full touch-none ${canvasCursors[tool] || "cursor-crosshair"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onLostPointerCapture={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        onContextMenu={(e) => e.preventDefault()}
+      />
+
+      {editing && editingNote?.kind === "sticky" && (
+        <textarea
+          autoFocus
+          value={editing.text}
+          onChange={(e) => {
+            editingRef.current = { id: editing.id, text: e.target.value };
+            setEditing(editingRef.current);
+          }}
+          onBlur={commitSticky}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              e.preventDefault();
+              cancelSticky();
+            } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              commitSticky();
+            }
+          }}
+          className="absolute resize-none border-none outline-none text-gray-800"
+          style={{
+            left: (editingNote.x - view.x) * view.zoom,
+            top: (editingNote.y - view.y) * view.zoom,
+            width: editingNote.width * view.zoom,
+            height: editingNote.height * view.zoom,
+            padding: STICKY_PADDING * view.zoom,
+            fontSize: STICKY_FONT_SIZE * view.zoom,
+            lineHeight: STICKY_LINE_HEIGHT,
+            fontFamily: "system-ui, sans-serif",
+            backgroundColor: editingNote.color,
+          }}
+          maxLength={MAX_STICKY_TEXT}
+        />
+      )}
+
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-background border rounded-lg shadow-lg p-2">
+        <div className="flex gap-1">
+          {tools.map(({ value, label, icon: Icon }) => (
+            <Toggle
+              key={value}
+              size="sm"
+              pressed={tool === value}
+              onPressedChange={() => setTool(value)}
+              aria-label={label}
+              title={label}
+            >
+              <Icon className="h-4 w-4" />
+            </Toggle>
+          ))}
+        </div>
+
+        {tool === "shape" && (
+          <div className="flex gap-1 border-l pl-2">
+            {shapeTools.map(({ value, label, icon: Icon }) => (
+              <Toggle
+                key={value}
+                size="sm"
+                pressed={shapeType === value}
+                onPressedChange={() => setShapeType(value)}
+                aria-label={label}
+                title={label}
+              >
+                <Icon className="h-4 w-4" />
+              </Toggle>
+            ))}
+          </div>
+        )}
+
+        {(tool === "draw" || tool === "shape") && (
+          <div className="flex items-center gap-2 border-l pl-2">
+            <div className="w-24">
+              <Slider
+                value={[lineWidth]}
+                min={1}
+                max={20}
+                step={1}
+                onValueChange={(value) => setLineWidth(value[0])}
+              />
+            </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="w-8 h-8 p-0" title="Color">
+                  <div className="w-6 h-6 rounded-full" style={{ backgroundColor: color }} />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-2">
+                <div className="grid grid-cols-3 gap-1">
+                  {colors.map((c) => (
+                    <button
+                      key={c}
+                      className={`w-8 h-8 rounded-full border-2 ${color === c ? "border-primary" : "border-transparent"}`}
+                      style={{ backgroundColor: c }}
+                      onClick={() => setColor(c)}
+                    />
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
+          </div>
+        )}
+
+        {tool === "sticky" && (
+          <div className="flex gap-1 border-l pl-2">
+            {STICKY_COLORS.map((c) => (
+              <button
+                key={c}
+                className={`w-6 h-6 rounded border-2 ${stickyColor === c ? "border-primary" : "border-transparent"}`}
+                style={{ backgroundColor: c }}
+                onClick={() => setStickyColor(c)}
+                aria-label="Note color"
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-1 border-l pl-2">
+          <ExportMenu onExport={saveBoard} onImport={importBoard} />
+        </div>
+
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close whiteboard">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="absolute bottom-4 right-4 flex items-center gap-1 bg-background border rounded-lg shadow-lg p-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => zoomCentered(view.zoom / ZOOM_STEP)}
+          disabled={view.zoom <= MIN_ZOOM}
+          title="Zoom out"
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-14 text-xs"
+          onClick={() => zoomCentered(1)}
+          title="Reset zoom"
+        >
+          {Math.round(view.zoom * 100)}%
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => zoomCentered(view.zoom * ZOOM_STEP)}
+          disabled={view.zoom >= MAX_ZOOM}
+          title="Zoom in"
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Whiteboard;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useLocation } from "react-router-dom";
 import { motion } from "framer-motion";
 import {
   Video,
@@ -10,9 +10,12 @@ import {
   Moon,
   Sun,
   User,
+  AlertCircle,
+  DoorOpen,
 } from "lucide-react";
 import { Peer } from "peerjs";
 import { useTheme } from "@/lib/theme-provider";
+import { getPeerServerOptions } from "@/lib/config";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -28,14 +31,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 
 const Home = () => {
   const navigate = useNavigate();
-  const [roomId, setRoomId] = useState("");
+  const location = useLocation();
+  // A room we were sent back from is prefilled so retrying is one click
+  const [roomId, setRoomId] = useState(location.state?.roomId || "");
   const [isPasswordProtected, setIsPasswordProtected] = useState(false);
   const [password, setPassword] = useState("");
+  const [isWaitingRoomEnabled, setIsWaitingRoomEnabled] = useState(false);
   const [activeTab, setActiveTab] = useState("join");
   const [userId, setUserId] = useState<string>("");
+  const [userName, setUserName] = useState<string>(
+    () => localStorage.getItem("userName") || ""
+  );
   const [peerStatus, setPeerStatus] = useState<
     "initializing" | "ready" | "error"
   >("initializing");
@@ -48,7 +58,7 @@ const Home = () => {
   useEffect(() => {
     const initPeer = async () => {
       try {
-        const newPeer = new Peer();
+        const newPeer = new Peer(getPeerServerOptions());
 
         newPeer.on("open", (id) => {
           console.log("My peer ID is:", id);
@@ -79,6 +89,13 @@ const Home = () => {
     return Math.random().toString(36).substring(2, 7);
   };
 
+  // Display name shown to other participants, remembered for next time
+  const getDisplayName = () => {
+    const name = userName.trim() || "User";
+    localStorage.setItem("userName", name);
+    return name;
+  };
+
   // Handle create room
   const handleCreateRoom = () => {
     if (userId) {
@@ -88,8 +105,9 @@ const Home = () => {
         state: {
           isHost: true,
           password: isPasswordProtected ? password : null,
+          waitingRoom: isWaitingRoomEnabled,
           userId: userId,
-          userName: "User", // Default username
+          userName: getDisplayName(),
           roomId: newRoomId, // Pass the room ID separately
         },
       });
@@ -104,7 +122,7 @@ const Home = () => {
           isHost: false,
           password: password || null,
           userId: userId,
-          userName: "User", // Default username
+          userName: getDisplayName(),
           roomId: roomId.trim(), // Pass the room ID separately
         },
       });
@@ -202,6 +220,23 @@ const Home = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {/* Why we were sent back from a room, if we were */}
+              {location.state?.notice && (
+                <Alert className="mb-4">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{location.state.notice}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2 mb-4">
+                <Label htmlFor="userName">Your name</Label>
+                <Input
+                  id="userName"
+                  placeholder="How others will see you"
+                  maxLength={64}
+                  value={userName}
+                  onChange={(e) => setUserName(e.target.value)}
+                />
+              </div>
               <Tabs
                 defaultValue="join"
                 value={activeTab}
@@ -266,6 +301,18 @@ const Home = () => {
                       />
                     </div>
                   )}
+
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="waiting-room"
+                      checked={isWaitingRoomEnabled}
+                      onCheckedChange={setIsWaitingRoomEnabled}
+                    />
+                    <Label htmlFor="waiting-room" className="flex items-center gap-2">
+                      <DoorOpen className="h-4 w-4" />
+                      Waiting room: admit people yourself
+                    </Label>
+                  </div>
                 </TabsContent>
               </Tabs>
             </CardContent>
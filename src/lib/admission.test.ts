@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import {
+  AdmissionCheck,
+  answerChallenge,
+  createChallenge,
+  decideAdmission,
+  deriveRoomKey,
+  isMutuallyAdmitted,
+  isNewcomer,
+  PeerAuthState,
+  verifyAnswer,
+} from "./admission";
+import type { RoomPolicy } from "./protocol";
+
+// Just enough of a participant's admission state to replay a join between
+// several peers, the way VideoRoom keeps it
+class TestPeer {
+  readonly id: string;
+  isAdmitted: boolean;
+  policy: RoomPolicy | null;
+  readonly known = new Set<string>();
+  readonly auth: Record<string, PeerAuthState> = {};
+
+  constructor(id: string, isAdmitted: boolean, policy: RoomPolicy | null = null) {
+    this.id = id;
+    this.isAdmitted = isAdmitted;
+    this.policy = policy;
+  }
+
+  // The data connection to `other` opened
+  connect(other: TestPeer) {
+    this.auth[other.id] = { verified: false, accepted: false };
+  }
+
+  // `other` answered our challenge with the right password
+  answered(other: TestPeer) {
+    const auth = this.auth[other.id];
+    const decision = decideAdmission({
+      proofOk: true,
+      isNewcomer: isNewcomer(other.id, this.isAdmitted, this.policy),
+      policy: this.policy,
+      isKnown: this.known.has(other.id),
+      isRemoved: false,
+    });
+
+    if (decision === "admit") {
+      auth.verified = true;
+      this.known.add(other.id);
+      // Our auth-result reaches the other side, which replies with its policy
+      other.auth[this.id].accepted = true;
+      other.isAdmitted = true;
+      if (other.policy && !this.policy) this.policy = other.policy;
+    } else if (decision === "wait") {
+      auth.waiting = true;
+    }
+    return decision;
+  }
+}
+
+const policy = (changes: Partial<RoomPolicy> = {}): RoomPolicy => ({
+  hostId: "host",
+  locked: false,
+  waitingRoom: false,
+  epoch: 0,
+  joinOrder: [],
+  ...changes,
+});
+
+// A host and a member who already let each other in, the host noted the
+// member's join
+const createRoom = (roomPolicy: RoomPolicy) => {
+  const recorded = { ...roomPolicy, joinOrder: ["member"] };
+  const host = new TestPeer("host", true, recorded);
+  const member = new TestPeer("member", true, recorded);
+  host.connect(member);
+  member.connect(host);
+  host.auth.member = { verified: true, accepted: true };
+  member.auth.host = { verified: true, accepted: true };
+  host.known.add("member");
+  member.known.add("host");
+  return { host, member };
+};
+
+const check = (changes: Partial<AdmissionCheck> = {}): AdmissionCheck => ({
+  proofOk: true,
+  isNewcomer: true,
+  policy: null,
+  isKnown: false,
+  isRemoved: false,
+  ...changes,
+});
+
+describe("decideAdmission", () => {
+  it("rejects a wrong password whoever is asking", () => {
+    expect(decideAdmission(check({ proofOk: false }))).toBe("incorrect-password");
+    expect(decideAdmission(check({ proofOk: false, isNewcomer: false }))).toBe(
+      "incorrect-password",
+    );
+  });
+
+  it("keeps removed peers out, even ones the room knew", () => {
+    expect(decideAdmission(check({ isRemoved: true, isKnown: true }))).toBe("removed");
+    expect(decideAdmission(check({ isRemoved: true, isNewcomer: false }))).toBe("removed");
+  });
+
+  it("lets only known peers into a locked room", () => {
+    const locked = policy({ locked: true, waitingRoom: true });
+    expect(decideAdmission(check({ policy: locked }))).toBe("room-locked");
+    expect(decideAdmission(check({ policy: locked, isKnown: true }))).toBe("admit");
+  });
+
+  it("sends unknown peers to the waiting room", () => {
+    const waiting = policy({ waitingRoom: true });
+    expect(decideAdmission(check({ policy: waiting }))).toBe("wait");
+    expect(decideAdmission(check({ policy: waiting, isKnown: true }))).toBe("admit");
+    expect(decideAdmission(check({ policy: policy() }))).toBe("admit");
+  });
+
+  it("doesn't hold a newcomer's policy against the members it meets", () => {
+    const locked = policy({ locked: true, waitingRoom: true });
+    expect(decideAdmission(check({ isNewcomer: false, policy: locked }))).toBe("admit");
+  });
+});
+
+describe("isNewcomer", () => {
+  const joined = policy({ joinOrder: ["a", "b"] });
+
+  it("meets every peer as a member while we are joining", () => {
+    expect(isNewcomer("stranger", false, joined)).toBe(false);
+  });
+
+  it("knows the host and the members in the join order once we are in", () => {
+    expect(isNewcomer("host", true, joined)).toBe(false);
+    expect(isNewcomer("b", true, joined)).toBe(false);
+    expect(isNewcomer("stranger", true, joined)).toBe(true);
+    expect(isNewcomer("a", true, null)).toBe(true);
+  });
+});
+
+describe("joining a room with three peers", () => {
+  it("meets the second member after the first handed over a waiting-room policy", () => {
+    const { host, member } = createRoom(policy({ waitingRoom: true }));
+    const newcomer = new TestPeer("newcomer", false);
+    [host, member].forEach((peer) => {
+      peer.connect(newcomer);
+      newcomer.connect(peer);
+    });
+
+    // The host answers first and hands over the room policy
+    expect(newcomer.answered(host)).toBe("admit");
+    expect(newcomer.policy?.waitingRoom).toBe(true);
+
+    // The member's answer arrives after the policy
+    expect(newcomer.answered(member)).toBe("admit");
+    expect(newcomer.auth.member.waiting).toBeUndefined();
+
+    // The room itself still holds the newcomer in the waiting room
+    expect(host.answered(newcomer)).toBe("wait");
+    expect(member.answered(newcomer)).toBe("wait");
+    expect(isMutuallyAdmitted(host.auth.newcomer)).toBe(false);
+    expect(isMutuallyAdmitted(member.auth.newcomer)).toBe(false);
+  });
+
+  it("meets the second member of a locked room after one member accepted it", () => {
+    const { host, member } = createRoom(policy({ locked: true }));
+    const newcomer = new TestPeer("newcomer", false);
+    [host, member].forEach((peer) => {
+      peer.connect(newcomer);
+      newcomer.connect(peer);
+    });
+
+    // Say the host knows the newcomer from before it dropped out
+    host.known.add("newcomer");
+    expect(host.answered(newcomer)).toBe("admit");
+    expect(newcomer.isAdmitted).toBe(true);
+
+    expect(newcomer.answered(host)).toBe("admit");
+    expect(newcomer.policy?.locked).toBe(true);
+    expect(newcomer.answered(member)).toBe("admit");
+    expect(isMutuallyAdmitted(newcomer.auth.host)).toBe(true);
+  });
+
+  it("lets a member we reach only after getting in into a locked room", () => {
+    const { host, member } = createRoom(policy({ locked: true }));
+    const newcomer = new TestPeer("newcomer", false);
+    host.connect(newcomer);
+    newcomer.connect(host);
+
+    host.known.add("newcomer");
+    expect(host.answered(newcomer)).toBe("admit");
+    expect(newcomer.answered(host)).toBe("admit");
+    expect(newcomer.policy?.locked).toBe(true);
+
+    // Our connection to the member opens late, or again after a drop
+    member.connect(newcomer);
+    newcomer.connect(member);
+    expect(newcomer.answered(member)).toBe("admit");
+  });
+
+  it("holds the room's rules against peers that connect after we are in", () => {
+    const { host } = createRoom(policy({ waitingRoom: true }));
+    const latecomer = new TestPeer("latecomer", false);
+    host.connect(latecomer);
+    latecomer.connect(host);
+
+    expect(host.answered(latecomer)).toBe("wait");
+  });
+});
+
+describe("isMutuallyAdmitted", () => {
+  it("needs both sides to have let the other in", () => {
+    expect(isMutuallyAdmitted(undefined)).toBe(false);
+    expect(isMutuallyAdmitted({ verified: true, accepted: false })).toBe(false);
+    expect(isMutuallyAdmitted({ verified: false, accepted: true })).toBe(false);
+    expect(isMutuallyAdmitted({ verified: true, accepted: true })).toBe(true);
+  });
+
+  it("leaves out peers in the waiting room", () => {
+    expect(isMutuallyAdmitted({ verified: true, accepted: true, waiting: true })).toBe(false);
+  });
+});
+
+describe("challenge and answer", () => {
+  it("accepts an answer made with the same password only", async () => {
+    const key = await deriveRoomKey("secret", "room");
+    const wrongKey = await deriveRoomKey("guess", "room");
+    const challenge = createChallenge();
+
+    const proof = await answerChallenge(key, challenge, "joiner", "member");
+    expect(await verifyAnswer(key, challenge, "joiner", "member", proof)).toBe(true);
+
+    const wrongProof = await answerChallenge(wrongKey, challenge, "joiner", "member");
+    expect(await verifyAnswer(key, challenge, "joiner", "member", wrongProof)).toBe(false);
+  });
+
+  it("binds the answer to both peer IDs", async () => {
+    const key = await deriveRoomKey("secret", "room");
+    const challenge = createChallenge();
+    const proof = await answerChallenge(key, challenge, "joiner", "member");
+
+    expect(await verifyAnswer(key, challenge, "someone-else", "member", proof)).toBe(false);
+    expect(await verifyAnswer(key, challenge, "joiner", "other-member", proof)).toBe(false);
+  });
+});
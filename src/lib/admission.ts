@@ -0,0 +1,175 @@
+// Room admission handshake. The room password never leaves the browser:
+// both sides derive an HMAC key from it with PBKDF2 and prove knowledge of
+// the key by signing a random challenge from the other side. A room without a
+// password derives its key from the empty string, so a joiner must match the
+// room's password (or lack of one) exactly.
+
+import type { AdmissionRejectReason, RoomPolicy } from "./protocol";
+
+const PBKDF2_ITERATIONS = 150000;
+const DEVICE_ID_KEY = "peermeet-device-id";
+
+export interface PeerAuthState {
+  /** Challenge we sent to the peer */
+  challenge?: string;
+  /** The peer answered our challenge correctly */
+  verified: boolean;
+  /** The peer verified our answer and accepts messages from us */
+  accepted: boolean;
+  /** Password verified, but the peer waits for the host to admit it */
+  waiting?: boolean;
+  /** The browser the peer says it joins from, see getDeviceId */
+  deviceId?: string;
+}
+
+/**
+ * Both sides let each other in: the peer admitted us, and we verified it and
+ * it isn't waiting for the host. Only then may room content go to it.
+ */
+export function isMutuallyAdmitted(auth: PeerAuthState | undefined): boolean {
+  return !!auth?.accepted && auth.verified && !auth.waiting;
+}
+
+/**
+ * Whether the room's rules apply to a peer that answered our challenge. They
+ * do once we are in the room ourselves, except for the host and the members
+ * the room's join order lists, however late our connection to them opened.
+ * While we are still joining every peer is a member we have to meet.
+ */
+export function isNewcomer(
+  peerId: string,
+  isAdmitted: boolean,
+  policy: Pick<RoomPolicy, "hostId" | "joinOrder"> | null,
+): boolean {
+  if (!isAdmitted) return false;
+  return !policy || (policy.hostId !== peerId && !policy.joinOrder.includes(peerId));
+}
+
+export interface AdmissionCheck {
+  /** The peer proved it knows the room password */
+  proofOk: boolean;
+  /** See isNewcomer */
+  isNewcomer: boolean;
+  policy: Pick<RoomPolicy, "locked" | "waitingRoom"> | null;
+  /** Admitted before, e.g. reconnecting after a dropped connection */
+  isKnown: boolean;
+  isRemoved: boolean;
+}
+
+export type AdmissionDecision = "admit" | "wait" | AdmissionRejectReason;
+
+/**
+ * What to do with a peer that answered our challenge. Removed peers stay
+ * out, members too; the lock and the waiting room keep newcomers out. While
+ * we are the newcomer ourselves every peer that knows the password is a
+ * member we have to meet, whatever policy the first member has handed us
+ * meanwhile.
+ */
+export function decideAdmission(check: AdmissionCheck): AdmissionDecision {
+  if (!check.proofOk) return "incorrect-password";
+  if (check.isRemoved) return "removed";
+  if (!check.isNewcomer) return "admit";
+
+  if (check.isKnown) return "admit";
+  if (check.policy?.locked) return "room-locked";
+  return check.policy?.waitingRoom ? "wait" : "admit";
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// The proof binds the challenge to both peer IDs so it can't be replayed to
+// a different peer
+const proofInput = (challenge: string, responderId: string, challengerId: string) =>
+  encoder.encode(`${challenge}:${responderId}:${challengerId}`);
+
+/** Derive the room's HMAC key from its password, salted with the room ID */
+export async function deriveRoomKey(password: string, roomId: string): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: encoder.encode(`peermeet-room:${roomId}`),
+      iterations: PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    baseKey,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/**
+ * A random ID for this browser, kept in localStorage so it survives a reload
+ * when the peer ID doesn't. Sent along with our admission answer so a host's
+ * removal still applies after the removed participant reloads. A private
+ * window or another browser comes with a new one.
+ */
+export function getDeviceId(): string {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    // Storage is off, this tab still gets one for as long as it lives
+    return crypto.randomUUID();
+  }
+}
+
+export function createChallenge(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toBase64(bytes.buffer);
+}
+
+/** Answer a challenge from `challengerId` as `responderId` */
+export async function answerChallenge(
+  key: CryptoKey,
+  challenge: string,
+  responderId: string,
+  challengerId: string,
+): Promise<string> {
+  const proof = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    proofInput(challenge, responderId, challengerId),
+  );
+  return toBase64(proof);
+}
+
+/** Check the answer `responderId` gave to our challenge */
+export async function verifyAnswer(
+  key: CryptoKey,
+  challenge: string,
+  responderId: string,
+  challengerId: string,
+  proof: string,
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64(proof),
+      proofInput(challenge, responderId, challengerId),
+    );
+  } catch (err) {
+    console.error("Error verifying admission proof:", err);
+    return false;
+  }
+}
@@ -0,0 +1,794 @@
+// Screen share annotations as vectors instead of bitmaps. Coordinates are
+// normalized to the annotated surface (0..1 on both axes) and sizes to its
+// height, so every viewer redraws them crisply at their own resolution.
+//
+// The presenter owns the document of its share. Viewers allowed to annotate
+// send their edits to the presenter, who relays them to everyone else.
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+  /** Pen pressure from 0 to 1, absent for mouse and touch input */
+  pressure?: number;
+}
+
+export type StrokeTool = "draw" | "highlight";
+
+interface AnnotationBase {
+  id: string;
+  /** Peer that drew it and the name shown on its label */
+  authorId?: string;
+  authorName?: string;
+}
+
+export interface StrokeAnnotation extends AnnotationBase {
+  kind: "stroke";
+  tool: StrokeTool;
+  color: string;
+  /** Line width as a fraction of the surface height */
+  width: number;
+  points: AnnotationPoint[];
+}
+
+export interface TextAnnotation extends AnnotationBase {
+  kind: "text";
+  color: string;
+  /** Font size as a fraction of the surface height */
+  size: number;
+  /** Baseline of the first line */
+  x: number;
+  y: number;
+  /** May span several lines separated by "\n" */
+  text: string;
+  /** Draw it on a pill of its colour for contrast with busy screens */
+  background?: boolean;
+}
+
+export type ShapeType = "arrow" | "rectangle" | "ellipse" | "line";
+
+export interface ShapeAnnotation extends AnnotationBase {
+  kind: "shape";
+  shape: ShapeType;
+  color: string;
+  /** Outline width as a fraction of the surface height */
+  width: number;
+  /** Rectangles and ellipses get a translucent fill of their colour */
+  filled: boolean;
+  /** Where the drag started and ended, the arrowhead sits at `end` */
+  start: AnnotationPoint;
+  end: AnnotationPoint;
+}
+
+export type Annotation = StrokeAnnotation | TextAnnotation | ShapeAnnotation;
+
+// Edits streamed over the data connections. Strokes are sent while drawn:
+// "begin" with the first point, then "extend" with batches of new points.
+export type AnnotationOp =
+  | { op: "begin"; annotation: StrokeAnnotation }
+  | { op: "extend"; id: string; points: AnnotationPoint[] }
+  /** Insert a finished annotation, at `index` in the stacking order if given */
+  | { op: "add"; annotation: Annotation; index?: number }
+  /** Replace an annotation in place, e.g. after moving it */
+  | { op: "update"; annotation: Annotation }
+  | { op: "remove"; id: string }
+  /** Remove everything, or only what `authorId` drew */
+  | { op: "clear"; authorId?: string }
+  /** Everything drawn so far, for viewers who arrive mid-share */
+  | { op: "sync"; annotations: Annotation[] };
+
+const MAX_POINTS_PER_STROKE = 5000;
+const MAX_TEXT_LENGTH = 500;
+
+// Colours that tell annotating viewers apart, picked by peer ID
+const AUTHOR_COLORS = [
+  "#FF3B30",
+  "#FF9500",
+  "#34C759",
+  "#5AC8FA",
+  "#AF52DE",
+  "#FF2D55",
+  "#5856D6",
+  "#00C7BE",
+];
+
+export function authorColor(peerId: string): string {
+  let hash = 0;
+  for (let i = 0; i < peerId.length; i++) {
+    hash = (hash * 31 + peerId.charCodeAt(i)) | 0;
+  }
+  return AUTHOR_COLORS[Math.abs(hash) % AUTHOR_COLORS.length];
+}
+
+export function createAnnotationId(): string {
+  return crypto.randomUUID();
+}
+
+/** Apply an edit to an annotation list, returns a new list */
+export function applyAnnotationOp(annotations: Annotation[], op: AnnotationOp): Annotation[] {
+  switch (op.op) {
+    case "begin":
+      return [...annotations.filter((a) => a.id !== op.annotation.id), op.annotation];
+    case "add": {
+      const rest = annotations.filter((a) => a.id !== op.annotation.id);
+      const index = op.index === undefined ? rest.length : Math.min(op.index, rest.length);
+      return [...rest.slice(0, index), op.annotation, ...rest.slice(index)];
+    }
+    case "update":
+      return annotations.map((a) => (a.id === op.annotation.id ? op.annotation : a));
+    case "remove":
+      return annotations.filter((a) => a.id !== op.id);
+    case "extend":
+      return annotations.map((a) =>
+        a.id === op.id && a.kind === "stroke"
+          ? { ...a, points: [...a.points, ...op.points].slice(0, MAX_POINTS_PER_STROKE) }
+          : a,
+      );
+    case "clear":
+      return op.authorId ? annotations.filter((a) => a.authorId !== op.authorId) : [];
+    case "sync":
+      return op.annotations;
+  }
+}
+
+/** Opacity of the fill of filled shapes */
+export const SHAPE_FILL_ALPHA = 0.25;
+
+/** Arrowhead length in pixels for an arrow of the given line width */
+export const arrowHeadLength = (lineWidth: number) => Math.max(lineWidth * 4, 12);
+
+function drawShape(
+  ctx: CanvasRenderingContext2D,
+  shape: ShapeAnnotation,
+  width: number,
+  height: number,
+) {
+  const x1 = shape.start.x * width;
+  const y1 = shape.start.y * height;
+  const x2 = shape.end.x * width;
+  const y2 = shape.end.y * height;
+
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.strokeStyle = shape.color;
+  ctx.fillStyle = shape.color;
+  ctx.lineWidth = shape.width * height;
+
+  ctx.beginPath();
+  switch (shape.shape) {
+    case "rectangle":
+      ctx.rect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      break;
+    case "ellipse":
+      ctx.ellipse(
+        (x1 + x2) / 2,
+        (y1 + y2) / 2,
+        Math.abs(x2 - x1) / 2,
+        Math.abs(y2 - y1) / 2,
+        0,
+        0,
+        Math.PI * 2,
+      );
+      break;
+    case "line":
+    case "arrow": {
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = shape.shape === "arrow" ? arrowHeadLength(ctx.lineWidth) : 0;
+      // Stop the shaft short so its round cap doesn't poke through the head
+      const shaft = Math.max(Math.hypot(x2 - x1, y2 - y1) - head / 2, 0);
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x1 + Math.cos(angle) * shaft, y1 + Math.sin(angle) * shaft);
+      ctx.stroke();
+
+      if (head > 0) {
+        ctx.beginPath();
+        ctx.moveTo(x2, y2);
+        ctx.lineTo(
+          x2 - head * Math.cos(angle - Math.PI / 6),
+          y2 - head * Math.sin(angle - Math.PI / 6),
+        );
+        ctx.lineTo(
+          x2 - head * Math.cos(angle + Math.PI / 6),
+          y2 - head * Math.sin(angle + Math.PI / 6),
+        );
+        ctx.closePath();
+        ctx.fill();
+      }
+      return;
+    }
+  }
+
+  if (shape.filled) {
+    ctx.globalAlpha = SHAPE_FILL_ALPHA;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+  ctx.stroke();
+}
+
+/**
+ * Where a shape drag should end with Shift held: lines and arrows snap to
+ * 45° steps, rectangles and ellipses become squares and circles on screen.
+ */
+export function constrainShapeEnd(
+  shape: ShapeType,
+  start: AnnotationPoint,
+  end: AnnotationPoint,
+  width: number,
+  height: number,
+): AnnotationPoint {
+  const dx = (end.x - start.x) * width;
+  const dy = (end.y - start.y) * height;
+
+  if (shape === "line" || shape === "arrow") {
+    const step = Math.PI / 4;
+    const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+    const length = Math.hypot(dx, dy);
+    return {
+      x: start.x + (Math.cos(angle) * length) / width,
+      y: start.y + (Math.sin(angle) * length) / height,
+    };
+  }
+
+  const side = Math.max(Math.abs(dx), Math.abs(dy));
+  return {
+    x: start.x + (Math.sign(dx) * side) / width,
+    y: start.y + (Math.sign(dy) * side) / height,
+  };
+}
+
+export const TEXT_FONT = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+/** Line height of text annotations relative to their font size */
+export const TEXT_LINE_HEIGHT = 1.25;
+
+// Box around the glyphs of a text annotation, in pixels
+function measureTextBox(
+  ctx: CanvasRenderingContext2D,
+  text: TextAnnotation,
+  width: number,
+  height: number,
+): AnnotationBounds {
+  const size = text.size * height;
+  const lines = text.text.split("\n");
+
+  ctx.save();
+  ctx.font = `${size}px ${TEXT_FONT}`;
+  const textWidth = Math.max(...lines.map((line) => ctx.measureText(line).width));
+  ctx.restore();
+
+  // Text is drawn from its baseline, most of the glyphs sit above it
+  return {
+    x: text.x * width,
+    y: text.y * height - size,
+    width: textWidth,
+    height: (lines.length - 1) * size * TEXT_LINE_HEIGHT + size * 1.2,
+  };
+}
+
+// The pill drawn behind text with a background, a little larger than the glyphs
+function textPill(box: AnnotationBounds, size: number): AnnotationBounds {
+  const pad = size * 0.35;
+  return {
+    x: box.x - pad,
+    y: box.y - pad / 2,
+    width: box.width + pad * 2,
+    height: box.height + pad,
+  };
+}
+
+/** Black or white, whichever reads better on the given colour */
+export function readableTextColor(background: string): string {
+  let hex = background.replace("#", "");
+  if (hex.length < 6) hex = hex.split("").map((digit) => digit + digit).join("");
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return r * 0.299 + g * 0.587 + b * 0.114 > 150 ? "#000000" : "#FFFFFF";
+}
+
+function drawText(
+  ctx: CanvasRenderingContext2D,
+  text: TextAnnotation,
+  width: number,
+  height: number,
+) {
+  const size = text.size * height;
+  ctx.font = `${size}px ${TEXT_FONT}`;
+  ctx.fillStyle = text.color;
+
+  if (text.background) {
+    const pill = textPill(measureTextBox(ctx, text, width, height), size);
+    ctx.beginPath();
+    ctx.roundRect(pill.x, pill.y, pill.width, pill.height, Math.min(size * 0.5, pill.height / 2));
+    ctx.fill();
+    ctx.fillStyle = readableTextColor(text.color);
+  }
+
+  text.text.split("\n").forEach((line, i) => {
+    ctx.fillText(line, text.x * width, text.y * height + i * size * TEXT_LINE_HEIGHT);
+  });
+}
+
+/** Width multiplier for a pen pressure, a medium press draws the chosen thickness */
+export const pressureScale = (pressure: number) => 0.25 + pressure * 1.5;
+
+/** Draw one annotation on a canvas of the given size */
+export function drawAnnotation(
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  width: number,
+  height: number,
+) {
+  ctx.save();
+
+  if (annotation.kind === "text") {
+    drawText(ctx, annotation, width, height);
+    ctx.restore();
+    return;
+  }
+
+  if (annotation.kind === "shape") {
+    drawShape(ctx, annotation, width, height);
+    ctx.restore();
+    return;
+  }
+
+  const [first, ...rest] = annotation.points;
+  if (!first) {
+    ctx.restore();
+    return;
+  }
+
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.strokeStyle = annotation.color;
+  ctx.lineWidth = annotation.width * height;
+  ctx.globalAlpha = annotation.tool === "highlight" ? 0.3 : 1;
+
+  // Pen strokes get thicker the harder they are pressed, segment by segment.
+  // Highlights keep an even width, overlapping segments would show through.
+  if (annotation.tool === "draw" && first.pressure !== undefined && rest.length > 0) {
+    annotation.points.forEach((point, i) => {
+      if (i === 0) return;
+      const previous = annotation.points[i - 1];
+      const pressure = ((previous.pressure ?? 0.5) + (point.pressure ?? 0.5)) / 2;
+      ctx.lineWidth = annotation.width * height * pressureScale(pressure);
+      ctx.beginPath();
+      ctx.moveTo(previous.x * width, previous.y * height);
+      ctx.lineTo(point.x * width, point.y * height);
+      ctx.stroke();
+    });
+    ctx.restore();
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(first.x * width, first.y * height);
+  // A single click still leaves a dot
+  if (rest.length === 0) ctx.lineTo(first.x * width + 0.01, first.y * height);
+  rest.forEach((point) => ctx.lineTo(point.x * width, point.y * height));
+  ctx.stroke();
+
+  ctx.restore();
+}
+
+// Where an annotation's name label goes: the end of a stroke or shape, the
+// start of a text
+const labelAnchor = (annotation: Annotation): AnnotationPoint | null => {
+  if (annotation.kind === "text") return { x: annotation.x, y: annotation.y };
+  if (annotation.kind === "shape") return annotation.end;
+  return annotation.points[annotation.points.length - 1] || null;
+};
+
+/** Draw a name tag in the author's colour next to an annotation */
+export function drawAuthorLabel(
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  width: number,
+  height: number,
+) {
+  const anchor = labelAnchor(annotation);
+  if (!anchor || !annotation.authorName) return;
+
+  ctx.save();
+  ctx.font = "12px Arial";
+  const textWidth = ctx.measureText(annotation.authorName).width;
+  const x = Math.min(anchor.x * width + 6, width - textWidth - 8);
+  const y = Math.max(anchor.y * height - 22, 0);
+
+  ctx.fillStyle = annotation.authorId ? authorColor(annotation.authorId) : "#000000";
+  ctx.beginPath();
+  ctx.roundRect(x, y, textWidth + 8, 18, 4);
+  ctx.fill();
+  ctx.fillStyle = "#FFFFFF";
+  ctx.textBaseline = "middle";
+  ctx.fillText(annotation.authorName, x + 4, y + 9);
+  ctx.restore();
+}
+
+/**
+ * Clear the canvas and draw every annotation in order. Once more than one
+ * person has drawn, every annotation gets its author's name tag.
+ */
+export function renderAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[]) {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  annotations.forEach((annotation) => drawAnnotation(ctx, annotation, width, height));
+
+  const authors = new Set(annotations.map((annotation) => annotation.authorId));
+  if (authors.size > 1) {
+    annotations.forEach((annotation) => drawAuthorLabel(ctx, annotation, width, height));
+  }
+}
+
+export interface AnnotationBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Box around an annotation in canvas pixels */
+export function getAnnotationBounds(
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  width: number,
+  height: number,
+): AnnotationBounds {
+  if (annotation.kind === "text") {
+    const box = measureTextBox(ctx, annotation, width, height);
+    return annotation.background ? textPill(box, annotation.size * height) : box;
+  }
+
+  const points =
+    annotation.kind === "shape" ? [annotation.start, annotation.end] : annotation.points;
+  const xs = points.map((point) => point.x * width);
+  const ys = points.map((point) => point.y * height);
+  const lineWidth = annotation.width * height;
+  const pad =
+    annotation.kind === "shape" && annotation.shape === "arrow"
+      ? arrowHeadLength(lineWidth) / 2
+      : lineWidth / 2;
+  const left = Math.min(...xs) - pad;
+  const top = Math.min(...ys) - pad;
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...xs) + pad - left,
+    height: Math.max(...ys) + pad - top,
+  };
+}
+
+const distanceToSegment = (p: AnnotationPoint, a: AnnotationPoint, b: AnnotationPoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Shapes are hit on their outline, filled ones anywhere inside too
+function hitsShape(
+  shape: ShapeAnnotation,
+  point: AnnotationPoint,
+  tolerance: number,
+  width: number,
+  height: number,
+) {
+  const start = { x: shape.start.x * width, y: shape.start.y * height };
+  const end = { x: shape.end.x * width, y: shape.end.y * height };
+  const reach = (shape.width * height) / 2 + tolerance;
+
+  if (shape.shape === "line" || shape.shape === "arrow") {
+    return distanceToSegment(point, start, end) <= reach;
+  }
+
+  if (shape.shape === "rectangle") {
+    const corners = [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }];
+    const inside =
+      point.x >= Math.min(start.x, end.x) &&
+      point.x <= Math.max(start.x, end.x) &&
+      point.y >= Math.min(start.y, end.y) &&
+      point.y <= Math.max(start.y, end.y);
+    return (
+      (shape.filled && inside) ||
+      corners.some((corner, i) => distanceToSegment(point, corner, corners[(i + 1) % 4]) <= reach)
+    );
+  }
+
+  // Ellipse: how far out the point is relative to the radii, 1 on the outline
+  const rx = Math.max(Math.abs(end.x - start.x) / 2, 1);
+  const ry = Math.max(Math.abs(end.y - start.y) / 2, 1);
+  const relative = Math.hypot(
+    (point.x - (start.x + end.x) / 2) / rx,
+    (point.y - (start.y + end.y) / 2) / ry,
+  );
+  return (shape.filled && relative <= 1) || Math.abs(relative - 1) * Math.min(rx, ry) <= reach;
+}
+
+/**
+ * Topmost annotation under a point given in pixels of a `width`×`height`
+ * surface, the whole canvas by default. Strokes and outlines count as hit
+ * within `tolerance` pixels of their line, text anywhere in its box.
+ */
+export function findAnnotationAt(
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  point: AnnotationPoint,
+  tolerance = 6,
+  width = ctx.canvas.width,
+  height = ctx.canvas.height,
+): Annotation | null {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+
+    if (annotation.kind === "text") {
+      const box = getAnnotationBounds(ctx, annotation, width, height);
+      if (
+        point.x >= box.x - tolerance &&
+        point.x <= box.x + box.width + tolerance &&
+        point.y >= box.y - tolerance &&
+        point.y <= box.y + box.height + tolerance
+      ) {
+        return annotation;
+      }
+      continue;
+    }
+
+    if (annotation.kind === "shape") {
+      if (hitsShape(annotation, point, tolerance, width, height)) return annotation;
+      continue;
+    }
+
+    const points = annotation.points.map((p) => ({ x: p.x * width, y: p.y * height }));
+    const reach = (annotation.width * height) / 2 + tolerance;
+    const hit =
+      points.length === 1
+        ? Math.hypot(point.x - points[0].x, point.y - points[0].y) <= reach
+        : points.some((p, j) => j > 0 && distanceToSegment(point, points[j - 1], p) <= reach);
+    if (hit) return annotation;
+  }
+
+  return null;
+}
+
+/** Shift an annotation by a normalized offset, keeping it on the surface */
+export function translateAnnotation(annotation: Annotation, dx: number, dy: number): Annotation {
+  if (annotation.kind === "text") {
+    return { ...annotation, x: clamp01(annotation.x + dx), y: clamp01(annotation.y + dy) };
+  }
+
+  if (annotation.kind === "shape") {
+    return {
+      ...annotation,
+      start: { x: clamp01(annotation.start.x + dx), y: clamp01(annotation.start.y + dy) },
+      end: { x: clamp01(annotation.end.x + dx), y: clamp01(annotation.end.y + dy) },
+    };
+  }
+
+  return {
+    ...annotation,
+    points: annotation.points.map((point) => ({
+      x: clamp01(point.x + dx),
+      y: clamp01(point.y + dy),
+    })),
+  };
+}
+
+/** Dashed box around the selected annotation */
+export function drawSelection(ctx: CanvasRenderingContext2D, annotation: Annotation) {
+  const { width, height } = ctx.canvas;
+  const box = getAnnotationBounds(ctx, annotation, width, height);
+
+  ctx.save();
+  ctx.strokeStyle = "#0A84FF";
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.strokeRect(box.x - 4, box.y - 4, box.width + 8, box.height + 8);
+  ctx.restore();
+}
+
+/**
+ * The annotations of one screen share. The editing overlay and read-only
+ * layers subscribe to it and redraw on every change without going through
+ * React state.
+ */
+export class AnnotationDocument {
+  private annotations: Annotation[] = [];
+  private listeners = new Set<() => void>();
+
+  get items(): Annotation[] {
+    return this.annotations;
+  }
+
+  get(id: string): Annotation | undefined {
+    return this.annotations.find((annotation) => annotation.id === id);
+  }
+
+  apply(op: AnnotationOp) {
+    this.annotations = applyAnnotationOp(this.annotations, op);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// One undoable action: the ops that redo it and the ops that take it back
+export interface AnnotationHistoryEntry {
+  redo: AnnotationOp[];
+  undo: AnnotationOp[];
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * Undo and redo stacks for one person's edits. Undoing sends ordinary ops,
+ * so it reaches everyone watching the same way the edit did.
+ */
+export class AnnotationHistory {
+  private undoStack: AnnotationHistoryEntry[] = [];
+  private redoStack: AnnotationHistoryEntry[] = [];
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  push(entry: AnnotationHistoryEntry) {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  /** Ops that take back the last edit, null when there is nothing to undo */
+  undo(): AnnotationOp[] | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push(entry);
+    return entry.undo;
+  }
+
+  redo(): AnnotationOp[] | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push(entry);
+    return entry.redo;
+  }
+}
+
+const clamp01 = (value: unknown) => Math.min(1, Math.max(0, Number(value) || 0));
+
+const normalizeColor = (value: unknown) =>
+  typeof value === "string" && /^#[0-9A-Fa-f]{3,8}$/.test(value) ? value : "#FF3B30";
+
+const normalizeSize = (value: unknown) => Math.min(0.5, Math.max(0.0005, Number(value) || 0.005));
+
+const normalizePoints = (value: unknown): AnnotationPoint[] =>
+  Array.isArray(value)
+    ? value
+        .slice(0, MAX_POINTS_PER_STROKE)
+        .map((point: Partial<AnnotationPoint>) =>
+          typeof point?.pressure === "number"
+            ? { x: clamp01(point.x), y: clamp01(point.y), pressure: clamp01(point.pressure) }
+            : { x: clamp01(point?.x), y: clamp01(point?.y) },
+        )
+    : [];
+
+/** Annotation received from a peer, on the 0..1 surface with a hex colour and a sane size */
+export function normalizeAnnotation(annotation: Partial<Annotation>): Annotation | null {
+  if (!annotation || typeof annotation.id !== "string" || !annotation.id) return null;
+
+  const author = {
+    authorId: typeof annotation.authorId === "string" ? annotation.authorId : undefined,
+    authorName: annotation.authorName ? String(annotation.authorName).slice(0, 64) : undefined,
+  };
+
+  if (annotation.kind === "text") {
+    const text = String(annotation.text || "").slice(0, MAX_TEXT_LENGTH);
+    if (!text) return null;
+
+    return {
+      id: annotation.id,
+      ...author,
+      kind: "text",
+      color: normalizeColor(annotation.color),
+      size: normalizeSize(annotation.size),
+      x: clamp01(annotation.x),
+      y: clamp01(annotation.y),
+      text,
+      background: Boolean(annotation.background),
+    };
+  }
+
+  if (annotation.kind === "shape") {
+    const shape: ShapeType = ["arrow", "rectangle", "ellipse", "line"].includes(
+      annotation.shape as string,
+    )
+      ? (annotation.shape as ShapeType)
+      : "line";
+    const [start, end] = normalizePoints([annotation.start, annotation.end]);
+
+    return {
+      id: annotation.id,
+      ...author,
+      kind: "shape",
+      shape,
+      color: normalizeColor(annotation.color),
+      width: normalizeSize(annotation.width),
+      filled: Boolean(annotation.filled),
+      start,
+      end,
+    };
+  }
+
+  if (annotation.kind === "stroke") {
+    const tool: StrokeTool = annotation.tool === "highlight" ? "highlight" : "draw";
+
+    return {
+      id: annotation.id,
+      ...author,
+      kind: "stroke",
+      tool,
+      color: normalizeColor(annotation.color),
+      width: normalizeSize(annotation.width),
+      points: normalizePoints(annotation.points),
+    };
+  }
+
+  return null;
+}
+
+export function normalizeAnnotationOp(op: Partial<AnnotationOp>): AnnotationOp | null {
+  if (!op || typeof op !== "object") return null;
+
+  switch (op.op) {
+    case "begin": {
+      const annotation = normalizeAnnotation((op as { annotation?: Annotation }).annotation || {});
+      return annotation?.kind === "stroke" ? { op: "begin", annotation } : null;
+    }
+    case "add": {
+      const annotation = normalizeAnnotation((op as { annotation?: Annotation }).annotation || {});
+      if (!annotation) return null;
+      const { index } = op as { index?: unknown };
+      return Number.isInteger(index) && (index as number) >= 0
+        ? { op: "add", annotation, index: index as number }
+        : { op: "add", annotation };
+    }
+    case "update": {
+      const annotation = normalizeAnnotation((op as { annotation?: Annotation }).annotation || {});
+      return annotation ? { op: "update", annotation } : null;
+    }
+    case "remove": {
+      const { id } = op as { id?: unknown };
+      return typeof id === "string" ? { op: "remove", id } : null;
+    }
+    case "extend": {
+      const { id, points } = op as { id?: unknown; points?: unknown };
+      return typeof id === "string" ? { op: "extend", id, points: normalizePoints(points) } : null;
+    }
+    case "clear": {
+      const { authorId } = op as { authorId?: unknown };
+      return typeof authorId === "string" ? { op: "clear", authorId } : { op: "clear" };
+    }
+    case "sync": {
+      const { annotations } = op as { annotations?: unknown };
+      if (!Array.isArray(annotations)) return null;
+      return {
+        op: "sync",
+        annotations: annotations
+          .map((annotation) => normalizeAnnotation(annotation))
+          .filter((annotation): annotation is Annotation => annotation !== null),
+      };
+    }
+    default:
+      return null;
+  }
+}
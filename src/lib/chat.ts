@@ -0,0 +1,103 @@
+// In-call text chat. Messages go to every peer over the room data
+// connections, and a newly admitted peer is sent the history so far by the
+// members it connects to. Everyone sends theirs, so history is merged by ID.
+//
+// Private messages travel only over the data connection to the one peer they
+// are for. They are kept in a thread per person and never part of the
+// history handed to late joiners.
+
+export interface ChatEntry {
+  id: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  /** When it was sent, by the sender's clock */
+  sentAt: number;
+  /** Set on private messages, the one peer they are for */
+  recipientId?: string;
+}
+
+export const MAX_CHAT_LENGTH = 2000;
+/** Messages kept and handed to late joiners, older ones are dropped */
+export const CHAT_HISTORY_LIMIT = 500;
+
+export function createChatEntry(
+  sender: { id: string; name: string },
+  text: string,
+  recipientId?: string,
+): ChatEntry {
+  return {
+    id: crypto.randomUUID(),
+    senderId: sender.id,
+    senderName: sender.name,
+    text: text.slice(0, MAX_CHAT_LENGTH),
+    sentAt: Date.now(),
+    ...(recipientId ? { recipientId } : {}),
+  };
+}
+
+// A time a Date can hold, anything else can't be shown
+const isValidTime = (value: unknown) =>
+  typeof value === "number" && !Number.isNaN(new Date(value).getTime());
+
+/** Chat message received from a peer, never blank or private and with a time we can show */
+export function normalizeChatEntry(value: unknown): ChatEntry | null {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Partial<ChatEntry>;
+  if (typeof entry.id !== "string" || !entry.id || typeof entry.senderId !== "string") {
+    return null;
+  }
+
+  const text = String(entry.text || "").slice(0, MAX_CHAT_LENGTH);
+  if (!text.trim()) return null;
+
+  return {
+    id: entry.id.slice(0, 64),
+    senderId: entry.senderId,
+    senderName: String(entry.senderName || "Participant").slice(0, 64),
+    text,
+    sentAt: isValidTime(entry.sentAt) ? Number(entry.sentAt) : Date.now(),
+  };
+}
+
+/** Add messages to a history, skipping ones already there, oldest first */
+export function mergeChatHistory(history: ChatEntry[], entries: ChatEntry[]): ChatEntry[] {
+  const known = new Set(history.map((entry) => entry.id));
+  const added = entries.filter((entry) => {
+    if (known.has(entry.id)) return false;
+    known.add(entry.id);
+    return true;
+  });
+  if (added.length === 0) return history;
+
+  return [...history, ...added]
+    .sort((a, b) => a.sentAt - b.sentAt)
+    .slice(-CHAT_HISTORY_LIMIT);
+}
+
+/** A run of message text, a link when `href` is set */
+export interface ChatSegment {
+  text: string;
+  href?: string;
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+// Punctuation that usually ends the sentence rather than the link
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+/** Split message text into plain runs and web links */
+export function linkify(text: string): ChatSegment[] {
+  const segments: ChatSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = match[0].replace(TRAILING_PUNCTUATION, "");
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start) });
+    segments.push({ text: url, href: /^www\./i.test(url) ? `https://${url}` : url });
+    last = start + url.length;
+  }
+
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
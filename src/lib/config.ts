@@ -0,0 +1,52 @@
+import type { PeerOptions } from "peerjs";
+import type { SignalingTransportKind } from "./signaling";
+
+// Runtime configuration read from Vite env variables. With nothing set the
+// app uses the public PeerJS cloud; pointing VITE_PEER_HOST at the server in
+// `server/` runs the whole deployment on your own network. ICE servers are
+// configured separately in `ice.ts`.
+
+const signalingTransports: SignalingTransportKind[] = [
+  "broadcast-channel",
+  "peer-rendezvous",
+  "websocket",
+];
+
+export function isSelfHosted(): boolean {
+  return Boolean(import.meta.env.VITE_PEER_HOST);
+}
+
+/** Connection options for the PeerServer, empty for the PeerJS cloud */
+export function getPeerServerOptions(): PeerOptions {
+  const env = import.meta.env;
+  if (!isSelfHosted()) return {};
+
+  return {
+    host: env.VITE_PEER_HOST,
+    port: env.VITE_PEER_PORT ? Number(env.VITE_PEER_PORT) : undefined,
+    path: env.VITE_PEER_PATH || "/peerjs",
+    secure: env.VITE_PEER_SECURE
+      ? env.VITE_PEER_SECURE === "true"
+      : window.location.protocol === "https:",
+  };
+}
+
+export function getSignalingUrl(): string {
+  const env = import.meta.env;
+  if (env.VITE_SIGNALING_URL) return env.VITE_SIGNALING_URL;
+
+  // Default to the signaling endpoint of the self-hosted server
+  const { host, port, secure } = getPeerServerOptions();
+  const base = host === "/" || !host ? window.location.hostname : host;
+  const portSuffix = port ? `:${port}` : window.location.port ? `:${window.location.port}` : "";
+  return `${secure ? "wss" : "ws"}://${base}${portSuffix}/signal`;
+}
+
+export function getSignalingTransportKind(): SignalingTransportKind {
+  const value = import.meta.env.VITE_SIGNALING_TRANSPORT as SignalingTransportKind;
+  if (signalingTransports.includes(value)) return value;
+
+  return isSelfHosted() || import.meta.env.VITE_SIGNALING_URL
+    ? "websocket"
+    : "peer-rendezvous";
+}
@@ -0,0 +1,376 @@
+import {
+  Annotation,
+  AnnotationBounds,
+  arrowHeadLength,
+  createAnnotationId,
+  getAnnotationBounds,
+  normalizeAnnotation,
+  pressureScale,
+  readableTextColor,
+  renderAnnotations,
+  SHAPE_FILL_ALPHA,
+  TEXT_FONT,
+  TEXT_LINE_HEIGHT,
+} from "./annotations";
+import {
+  BoardItem,
+  drawBoardItem,
+  getBoardItemBounds,
+  normalizeBoardItem,
+  STICKY_FONT_SIZE,
+  STICKY_LINE_HEIGHT,
+  STICKY_PADDING,
+  STICKY_TEXT_COLOR,
+  StickyNote,
+  wrapStickyText,
+} from "./whiteboard";
+
+// Saving annotations and whiteboards to files. PNGs look like the screen,
+// SVGs hold only the vector marks and JSON files can be imported again to
+// carry on where the markup left off.
+
+export type ExportFormat = "png" | "svg" | "json";
+
+const ANNOTATIONS_FILE_TYPE = "peermeet-annotations";
+const WHITEBOARD_FILE_TYPE = "peermeet-whiteboard";
+const FILE_VERSION = 1;
+
+// Empty space around the content of an exported board, in board units
+const BOARD_MARGIN = 40;
+// Largest side of an exported PNG, big boards are scaled down to fit
+const MAX_PNG_SIZE = 8192;
+
+// Save a blob through the browser's download prompt
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// File name like `whiteboard-2024-05-01-1430.png`
+function exportFileName(prefix: string, format: ExportFormat) {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  return `${prefix}-${date}-${pad(now.getHours())}${pad(now.getMinutes())}.${format}`;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image."))),
+      "image/png",
+    ),
+  );
+
+// Text has to be measured to lay out pills and notes, any canvas will do
+const scratchContext = () => document.createElement("canvas").getContext("2d")!;
+
+/**
+ * PNG of the annotations over the current frame of the shared video, at
+ * the video's own resolution. Without a video only the marks are drawn, on
+ * a transparent background of the given size.
+ */
+export function annotationsToPng(
+  annotations: Annotation[],
+  video: HTMLVideoElement | null,
+  fallbackSize: { width: number; height: number },
+): Promise<Blob> {
+  const width = video?.videoWidth || fallbackSize.width;
+  const height = video?.videoHeight || fallbackSize.height;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  if (video?.videoWidth) ctx.drawImage(video, 0, 0, width, height);
+
+  // renderAnnotations clears its canvas, so draw on a layer of its own
+  const layer = document.createElement("canvas");
+  layer.width = width;
+  layer.height = height;
+  renderAnnotations(layer.getContext("2d")!, annotations);
+  ctx.drawImage(layer, 0, 0);
+
+  return canvasToBlob(canvas);
+}
+
+/** PNG of everything on the board, on white */
+export function boardToPng(items: BoardItem[]): Promise<Blob> {
+  const bounds = boardBounds(scratchContext(), items);
+  const scale = Math.min(1, MAX_PNG_SIZE / Math.max(bounds.width, bounds.height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(bounds.width * scale);
+  canvas.height = Math.ceil(bounds.height * scale);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(scale, 0, 0, scale, -bounds.x * scale, -bounds.y * scale);
+  items.forEach((item) => drawBoardItem(ctx, item));
+
+  return canvasToBlob(canvas);
+}
+
+// Box around every item plus a margin, a blank page for an empty board
+function boardBounds(ctx: CanvasRenderingContext2D, items: BoardItem[]): AnnotationBounds {
+  if (items.length === 0) return { x: 0, y: 0, width: 800, height: 600 };
+
+  const boxes = items.map((item) => getBoardItemBounds(ctx, item));
+  const left = Math.min(...boxes.map((box) => box.x)) - BOARD_MARGIN;
+  const top = Math.min(...boxes.map((box) => box.y)) - BOARD_MARGIN;
+  const right = Math.max(...boxes.map((box) => box.x + box.width)) + BOARD_MARGIN;
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height)) + BOARD_MARGIN;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Two decimals are plenty and keep long strokes readable
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const svgDocument = (box: AnnotationBounds, body: string[]) =>
+  [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(box.width)}" height="${num(box.height)}" ` +
+      `viewBox="${num(box.x)} ${num(box.y)} ${num(box.width)} ${num(box.height)}">`,
+    ...body,
+    "</svg>",
+  ].join("\n");
+
+// Lines of text as tspans, the first on the baseline at `y`
+const svgText = (
+  lines: string[],
+  x: number,
+  y: number,
+  attributes: string,
+  lineHeight: number,
+) =>
+  `<text x="${num(x)}" y="${num(y)}" ${attributes} xml:space="preserve">` +
+  lines
+    .map(
+      (line, i) =>
+        `<tspan x="${num(x)}" dy="${i === 0 ? 0 : num(lineHeight)}">${escapeXml(line)}</tspan>`,
+    )
+    .join("") +
+  "</text>";
+
+// SVG markup for one annotation on a `width`×`height` surface, mirroring
+// drawAnnotation
+function annotationToSvg(
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  width: number,
+  height: number,
+): string {
+  if (annotation.kind === "text") {
+    const size = annotation.size * height;
+    const x = annotation.x * width;
+    const y = annotation.y * height;
+    let markup = "";
+    let color = annotation.color;
+
+    if (annotation.background) {
+      const pill = getAnnotationBounds(ctx, annotation, width, height);
+      const radius = Math.min(size * 0.5, pill.height / 2);
+      markup += `<rect x="${num(pill.x)}" y="${num(pill.y)}" width="${num(pill.width)}" height="${num(pill.height)}" rx="${num(radius)}" fill="${color}"/>`;
+      color = readableTextColor(annotation.color);
+    }
+
+    const font = `font-family="${escapeXml(TEXT_FONT)}" font-size="${num(size)}" fill="${color}"`;
+    return markup + svgText(annotation.text.split("\n"), x, y, font, size * TEXT_LINE_HEIGHT);
+  }
+
+  const lineWidth = annotation.width * height;
+  const strokeWidth = (value: number) =>
+    `stroke="${annotation.color}" stroke-width="${num(value)}" ` +
+    `stroke-linecap="round" stroke-linejoin="round"`;
+  const stroke = strokeWidth(lineWidth);
+
+  if (annotation.kind === "shape") {
+    const x1 = annotation.start.x * width;
+    const y1 = annotation.start.y * height;
+    const x2 = annotation.end.x * width;
+    const y2 = annotation.end.y * height;
+    const fill = annotation.filled
+      ? `fill="${annotation.color}" fill-opacity="${SHAPE_FILL_ALPHA}"`
+      : `fill="none"`;
+
+    switch (annotation.shape) {
+      case "rectangle":
+        return `<rect x="${num(Math.min(x1, x2))}" y="${num(Math.min(y1, y2))}" width="${num(Math.abs(x2 - x1))}" height="${num(Math.abs(y2 - y1))}" ${fill} ${stroke}/>`;
+      case "ellipse":
+        return `<ellipse cx="${num((x1 + x2) / 2)}" cy="${num((y1 + y2) / 2)}" rx="${num(Math.abs(x2 - x1) / 2)}" ry="${num(Math.abs(y2 - y1) / 2)}" ${fill} ${stroke}/>`;
+      case "line":
+      case "arrow": {
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const head = annotation.shape === "arrow" ? arrowHeadLength(lineWidth) : 0;
+        const shaft = Math.max(Math.hypot(x2 - x1, y2 - y1) - head / 2, 0);
+        let markup = `<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x1 + Math.cos(angle) * shaft)}" y2="${num(y1 + Math.sin(angle) * shaft)}" ${stroke}/>`;
+        if (head > 0) {
+          const corner = (offset: number) =>
+            `${num(x2 - head * Math.cos(angle + offset))},${num(y2 - head * Math.sin(angle + offset))}`;
+          markup += `<polygon points="${num(x2)},${num(y2)} ${corner(-Math.PI / 6)} ${corner(Math.PI / 6)}" fill="${annotation.color}"/>`;
+        }
+        return markup;
+      }
+    }
+  }
+
+  const points = annotation.points.map((point) => ({
+    ...point,
+    x: point.x * width,
+    y: point.y * height,
+  }));
+  const opacity = annotation.tool === "highlight" ? 0.3 : 1;
+  if (points.length === 0) return "";
+
+  // A single click leaves a dot
+  if (points.length === 1) {
+    return `<circle cx="${num(points[0].x)}" cy="${num(points[0].y)}" r="${num(lineWidth / 2)}" fill="${annotation.color}" fill-opacity="${opacity}"/>`;
+  }
+
+  // Pen strokes change width along the way, one line per segment
+  if (annotation.tool === "draw" && points[0].pressure !== undefined) {
+    return points
+      .slice(1)
+      .map((point, i) => {
+        const previous = points[i];
+        const pressure = ((previous.pressure ?? 0.5) + (point.pressure ?? 0.5)) / 2;
+        const width = strokeWidth(lineWidth * pressureScale(pressure));
+        return `<line x1="${num(previous.x)}" y1="${num(previous.y)}" x2="${num(point.x)}" y2="${num(point.y)}" ${width}/>`;
+      })
+      .join("");
+  }
+
+  const path = points.map((point) => `${num(point.x)},${num(point.y)}`).join(" ");
+  return `<polyline points="${path}" fill="none" ${stroke} stroke-opacity="${opacity}"/>`;
+}
+
+function stickyNoteToSvg(ctx: CanvasRenderingContext2D, note: StickyNote): string {
+  const rect = `<rect x="${num(note.x)}" y="${num(note.y)}" width="${num(note.width)}" height="${num(note.height)}" fill="${note.color}"/>`;
+  if (!note.text) return rect;
+
+  const font = `font-family="system-ui, sans-serif" font-size="${STICKY_FONT_SIZE}" fill="${STICKY_TEXT_COLOR}" dominant-baseline="text-before-edge"`;
+  return (
+    rect +
+    svgText(
+      wrapStickyText(ctx, note),
+      note.x + STICKY_PADDING,
+      note.y + STICKY_PADDING,
+      font,
+      STICKY_FONT_SIZE * STICKY_LINE_HEIGHT,
+    )
+  );
+}
+
+/** SVG of the annotations alone, sized like the shared picture */
+export function annotationsToSvg(annotations: Annotation[], width: number, height: number): string {
+  const ctx = scratchContext();
+  return svgDocument(
+    { x: 0, y: 0, width, height },
+    annotations.map((annotation) => annotationToSvg(ctx, annotation, width, height)),
+  );
+}
+
+/** SVG of everything on the board */
+export function boardToSvg(items: BoardItem[]): string {
+  const ctx = scratchContext();
+  const bounds = boardBounds(ctx, items);
+  return svgDocument(bounds, [
+    `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.width)}" height="${num(bounds.height)}" fill="#FFFFFF"/>`,
+    ...items.map((item) =>
+      item.kind === "sticky" ? stickyNoteToSvg(ctx, item) : annotationToSvg(ctx, item, 1, 1),
+    ),
+  ]);
+}
+
+export const annotationsToJson = (annotations: Annotation[]) =>
+  JSON.stringify({ type: ANNOTATIONS_FILE_TYPE, version: FILE_VERSION, annotations }, null, 2);
+
+export const boardToJson = (items: BoardItem[]) =>
+  JSON.stringify({ type: WHITEBOARD_FILE_TYPE, version: FILE_VERSION, items }, null, 2);
+
+// The list stored under `key` in an export file of the given type
+function readExportFile(text: string, type: string, key: string): unknown[] {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+
+  if (!data || data.type !== type || !Array.isArray(data[key])) {
+    throw new Error(
+      type === ANNOTATIONS_FILE_TYPE
+        ? "The file isn't an annotation export."
+        : "The file isn't a whiteboard export.",
+    );
+  }
+  if (Number(data.version) > FILE_VERSION) {
+    throw new Error("The file was saved by a newer version of the app.");
+  }
+  return data[key] as unknown[];
+}
+
+/**
+ * Annotations from an exported JSON file, validated like edits from a peer.
+ * They get new IDs so importing the same file twice doesn't clash.
+ */
+export function parseAnnotationsJson(text: string): Annotation[] {
+  return readExportFile(text, ANNOTATIONS_FILE_TYPE, "annotations").flatMap((value) => {
+    const annotation = normalizeAnnotation(value as Partial<Annotation>);
+    return annotation ? [{ ...annotation, id: createAnnotationId() }] : [];
+  });
+}
+
+/** Board items from an exported JSON file, with new IDs */
+export function parseBoardJson(text: string): BoardItem[] {
+  return readExportFile(text, WHITEBOARD_FILE_TYPE, "items").flatMap((value) => {
+    const item = normalizeBoardItem(value);
+    return item ? [{ ...item, id: createAnnotationId() }] : [];
+  });
+}
+
+const textBlob = (text: string, type: string) => new Blob([text], { type });
+
+/** Download the annotations of a share in the given format */
+export async function exportAnnotations(
+  format: ExportFormat,
+  annotations: Annotation[],
+  video: HTMLVideoElement | null,
+  fallbackSize: { width: number; height: number },
+) {
+  const fileName = exportFileName("annotations", format);
+
+  if (format === "png") {
+    downloadBlob(await annotationsToPng(annotations, video, fallbackSize), fileName);
+  } else if (format === "svg") {
+    const width = video?.videoWidth || fallbackSize.width;
+    const height = video?.videoHeight || fallbackSize.height;
+    downloadBlob(textBlob(annotationsToSvg(annotations, width, height), "image/svg+xml"), fileName);
+  } else {
+    downloadBlob(textBlob(annotationsToJson(annotations), "application/json"), fileName);
+  }
+}
+
+/** Download the whiteboard in the given format */
+export async function exportBoard(format: ExportFormat, items: BoardItem[]) {
+  const fileName = exportFileName("whiteboard", format);
+
+  if (format === "png") {
+    downloadBlob(await boardToPng(items), fileName);
+  } else if (format === "svg") {
+    downloadBlob(textBlob(boardToSvg(items), "image/svg+xml"), fileName);
+  } else {
+    downloadBlob(textBlob(boardToJson(items), "application/json"), fileName);
+  }
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FILE_CHUNK_SIZE, FileTransferManager, MAX_FILE_SIZE } from "./fileTransfer";
+import type { FileTransferMessage } from "./protocol";
+
+describe("FileTransferManager.sendFile", () => {
+  let sent: { peerId: string; message: FileTransferMessage }[];
+  let manager: FileTransferManager;
+
+  beforeEach(() => {
+    // The manager batches its change notifications on window timers
+    vi.stubGlobal("window", globalThis);
+    sent = [];
+    manager = new FileTransferManager(
+      (peerId, message) => {
+        sent.push({ peerId, message });
+        return true;
+      },
+      () => undefined,
+    );
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("hashes a file once however many peers it goes to", async () => {
+    const digest = vi.spyOn(crypto.subtle, "digest");
+    await manager.sendFile(["alice", "bob", "carol"], new File(["hello"], "hello.txt"));
+
+    expect(digest).toHaveBeenCalledTimes(1);
+    expect(sent.map(({ peerId }) => peerId)).toEqual(["alice", "bob", "carol"]);
+
+    const offers = sent.map(({ message }) => message);
+    expect(new Set(offers.map((offer) => offer.transferId)).size).toBe(3);
+    offers.forEach((offer) => {
+      expect(offer).toMatchObject({
+        type: "file-offer",
+        checksum: "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+      });
+    });
+    expect(manager.items.every((transfer) => transfer.status === "offered")).toBe(true);
+  });
+
+  it("fails every transfer of a file that is too large", async () => {
+    const file = new File([], "huge.bin");
+    Object.defineProperty(file, "size", { value: MAX_FILE_SIZE + 1 });
+    await manager.sendFile(["alice", "bob"], file);
+
+    expect(sent).toEqual([]);
+    expect(manager.items.map((transfer) => transfer.status)).toEqual(["failed", "failed"]);
+  });
+});
+
+describe("a transfer between two peers", () => {
+  let sender: FileTransferManager;
+  let receiver: FileTransferManager;
+
+  beforeEach(() => {
+    vi.stubGlobal("window", globalThis);
+    // Messages arrive asynchronously, as over a data channel
+    const deliver = (to: () => FileTransferManager, from: string) => (
+      _peerId: string,
+      message: FileTransferMessage,
+    ) => {
+      queueMicrotask(() => to().handleMessage(from, message));
+      return true;
+    };
+    sender = new FileTransferManager(deliver(() => receiver, "sender"), () => undefined);
+    receiver = new FileTransferManager(deliver(() => sender, "receiver"), () => undefined);
+  });
+
+  afterEach(() => {
+    sender.dispose();
+    receiver.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  const send = async (file: File) => {
+    await sender.sendFile(["receiver"], file);
+    await vi.waitFor(() => expect(receiver.items[0]?.status).toBe("incoming"));
+    receiver.accept(receiver.items[0].id);
+
+    await vi.waitFor(() => {
+      expect(receiver.items[0].status).toBe("done");
+      expect(sender.items[0].status).toBe("done");
+    });
+  };
+
+  it("delivers a file in chunks", async () => {
+    await send(new File([new Uint8Array(FILE_CHUNK_SIZE * 2 + 1)], "data.bin"));
+    expect(receiver.items[0].transferred).toBe(FILE_CHUNK_SIZE * 2 + 1);
+  });
+
+  it("finishes an empty file, which has no chunks", async () => {
+    await send(new File([], "empty.txt"));
+    expect(receiver.items[0]).toMatchObject({ name: "empty.txt", size: 0 });
+  });
+});
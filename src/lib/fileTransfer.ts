@@ -0,0 +1,531 @@
+import type { FileOfferMessage, FileTransferMessage } from "./protocol";
+
+// Files sent straight to another participant over the room data connection.
+//
+// The sender hashes the file and offers it, the recipient accepts or
+// declines. Chunks then go out in order, paced by the data channel's
+// bufferedAmount so a large file never floods the channel and room messages
+// such as heartbeats still get through. The recipient checks the finished
+// file against the hash and reports back.
+//
+// When the connection drops, both sides keep what they have. Once the peer
+// is back and admitted again, the sender offers the same transfer again and
+// the recipient answers with how many chunks it already holds.
+
+export type TransferStatus =
+  /** Hashing the file before offering it */
+  | "preparing"
+  /** Waiting for the recipient to accept */
+  | "offered"
+  /** Waiting for us to accept */
+  | "incoming"
+  | "sending"
+  | "receiving"
+  /** Checking the received file against its checksum */
+  | "verifying"
+  /** The connection dropped, picks up where it left off once the peer is back */
+  | "interrupted"
+  | "done"
+  | "declined"
+  | "cancelled"
+  | "failed";
+
+export interface FileTransfer {
+  id: string;
+  direction: "outgoing" | "incoming";
+  peerId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  status: TransferStatus;
+  /** Bytes sent or received so far */
+  transferred: number;
+  error?: string;
+  /** Received and verified: where the file can be saved from */
+  url?: string;
+}
+
+// Chunks stay under the size PeerJS splits messages at, so each one goes
+// out as a single data channel message
+export const FILE_CHUNK_SIZE = 15 * 1024;
+// Received files are held in memory until saved
+export const MAX_FILE_SIZE = 512 * 1024 * 1024;
+
+// Stop queueing chunks above this many unsent bytes, carry on below the low mark
+const BUFFER_HIGH_WATER = 1024 * 1024;
+const BUFFER_LOW_WATER = 256 * 1024;
+// Check the buffer at least this often, the low-water event isn't guaranteed
+const BUFFER_POLL_INTERVAL = 250;
+// Progress updates are passed on at most this often
+const NOTIFY_INTERVAL = 100;
+
+const ACTIVE_STATUSES: TransferStatus[] = ["offered", "sending", "receiving"];
+
+interface OutgoingFile {
+  file: Blob;
+  checksum: string;
+  /** Next chunk to send */
+  nextChunk: number;
+  /** Bumped each time sending (re)starts, so an older run knows to stop */
+  run: number;
+}
+
+interface IncomingFile {
+  checksum: string;
+  chunks: ArrayBuffer[];
+}
+
+/** SHA-256 of a blob, hex encoded */
+export async function fileChecksum(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Size in B, KB, MB or GB with one decimal */
+export function formatFileSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+const chunkCount = (size: number) => Math.ceil(size / FILE_CHUNK_SIZE);
+
+/** File offer received from a peer: a size we take, a SHA-256 hash and a bare file name */
+function normalizeOffer(message: FileOfferMessage): FileOfferMessage | null {
+  const size = Number(message.size);
+  if (typeof message.transferId !== "string" || !message.transferId) return null;
+  if (!Number.isInteger(size) || size < 0 || size > MAX_FILE_SIZE) return null;
+  if (typeof message.checksum !== "string" || !/^[0-9a-f]{64}$/.test(message.checksum)) {
+    return null;
+  }
+
+  return {
+    type: "file-offer",
+    transferId: message.transferId.slice(0, 64),
+    // Only the file's own name, never a path
+    name: String(message.name || "file").split(/[\\/]/).pop()!.slice(0, 255) || "file",
+    size,
+    mimeType: typeof message.mimeType === "string" ? message.mimeType.slice(0, 128) : "",
+    checksum: message.checksum,
+  };
+}
+
+export class FileTransferManager {
+  private readonly send: (peerId: string, message: FileTransferMessage) => boolean;
+  private readonly getChannel: (peerId: string) => RTCDataChannel | undefined;
+  private transfers = new Map<string, FileTransfer>();
+  private outgoing = new Map<string, OutgoingFile>();
+  private incoming = new Map<string, IncomingFile>();
+  private listeners = new Set<() => void>();
+  private sorted: FileTransfer[] = [];
+  private notifyTimer: number | null = null;
+
+  /**
+   * @param send Sends a message to a peer, false when it couldn't be sent
+   * @param getChannel The data channel to a peer, for its bufferedAmount
+   */
+  constructor(
+    send: (peerId: string, message: FileTransferMessage) => boolean,
+    getChannel: (peerId: string) => RTCDataChannel | undefined,
+  ) {
+    this.send = send;
+    this.getChannel = getChannel;
+  }
+
+  /** Every transfer, newest first */
+  get items(): FileTransfer[] {
+    return this.sorted;
+  }
+
+  /** Offer a file to one or more peers, a transfer each but hashed once */
+  async sendFile(peerIds: string[], file: File) {
+    const ids = peerIds.map((peerId) => {
+      const id = crypto.randomUUID();
+      this.set({
+        id,
+        direction: "outgoing",
+        peerId,
+        name: file.name,
+        size: file.size,
+        mimeType: file.type,
+        status: "preparing",
+        transferred: 0,
+      });
+      return id;
+    });
+    if (ids.length === 0) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      ids.forEach((id) => this.fail(id, `Files over ${formatFileSize(MAX_FILE_SIZE)} can't be sent`));
+      return;
+    }
+
+    let checksum: string;
+    try {
+      checksum = await fileChecksum(file);
+    } catch (err) {
+      console.error(`Could not read ${file.name}:`, err);
+      ids.forEach((id) => this.fail(id, "Could not read the file"));
+      return;
+    }
+
+    ids.forEach((id) => {
+      // Cancelled while hashing
+      if (this.transfers.get(id)?.status !== "preparing") return;
+
+      this.outgoing.set(id, { file, checksum, nextChunk: 0, run: 0 });
+      this.offer(id);
+    });
+  }
+
+  accept(id: string) {
+    const transfer = this.transfers.get(id);
+    if (transfer?.direction !== "incoming" || transfer.status !== "incoming") return;
+
+    this.update(id, { status: "receiving" });
+    this.send(transfer.peerId, { type: "file-response", transferId: id, accepted: true, offset: 0 });
+    // An empty file has no chunks to wait for
+    this.verifyIfComplete(id);
+  }
+
+  decline(id: string) {
+    const transfer = this.transfers.get(id);
+    if (transfer?.status !== "incoming") return;
+
+    this.incoming.delete(id);
+    this.update(id, { status: "declined" });
+    this.send(transfer.peerId, { type: "file-response", transferId: id, accepted: false });
+  }
+
+  /** Call off a transfer in progress, from either end */
+  cancel(id: string) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || this.isFinished(transfer)) return;
+
+    this.release(id);
+    this.update(id, { status: "cancelled" });
+    this.send(transfer.peerId, { type: "file-cancel", transferId: id });
+  }
+
+  /** Drop a finished transfer from the list */
+  dismiss(id: string) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || !this.isFinished(transfer)) return;
+
+    if (transfer.url) URL.revokeObjectURL(transfer.url);
+    this.transfers.delete(id);
+    this.notify();
+  }
+
+  /** The connection to a peer dropped, hold its transfers where they are */
+  interrupt(peerId: string) {
+    this.transfers.forEach((transfer) => {
+      if (transfer.peerId === peerId && ACTIVE_STATUSES.includes(transfer.status)) {
+        this.update(transfer.id, { status: "interrupted" });
+      }
+    });
+  }
+
+  /** A peer is connected and admitted again, pick up our transfers to it */
+  resume(peerId: string) {
+    this.transfers.forEach((transfer) => {
+      if (
+        transfer.peerId === peerId &&
+        transfer.direction === "outgoing" &&
+        transfer.status === "interrupted"
+      ) {
+        this.offer(transfer.id);
+      }
+    });
+  }
+
+  /** A peer left the call for good, its transfers can't finish */
+  abandon(peerId: string) {
+    this.transfers.forEach((transfer) => {
+      if (transfer.peerId === peerId && !this.isFinished(transfer)) {
+        this.release(transfer.id);
+        this.update(transfer.id, { status: "failed", error: "Left the call" });
+      }
+    });
+  }
+
+  handleMessage(peerId: string, message: FileTransferMessage) {
+    switch (message.type) {
+      case "file-offer":
+        this.handleOffer(peerId, message);
+        break;
+      case "file-response":
+        this.handleResponse(peerId, message.transferId, message.accepted, message.offset);
+        break;
+      case "file-chunk":
+        this.handleChunk(peerId, message.transferId, message.index, message.data);
+        break;
+      case "file-done": {
+        const transfer = this.getTransfer(peerId, message.transferId, "outgoing");
+        if (!transfer || transfer.status !== "sending") return;
+        this.outgoing.delete(transfer.id);
+        if (message.ok) this.update(transfer.id, { status: "done", transferred: transfer.size });
+        else this.fail(transfer.id, "The file arrived damaged");
+        break;
+      }
+      case "file-cancel": {
+        const transfer = this.getTransfer(peerId, message.transferId);
+        if (!transfer || this.isFinished(transfer)) return;
+        this.release(transfer.id);
+        this.update(transfer.id, {
+          status: transfer.status === "offered" ? "declined" : "cancelled",
+        });
+        break;
+      }
+    }
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Free every received file, e.g. when leaving the call */
+  dispose() {
+    this.transfers.forEach((transfer) => {
+      if (transfer.url) URL.revokeObjectURL(transfer.url);
+    });
+    this.transfers.clear();
+    this.outgoing.clear();
+    this.incoming.clear();
+    if (this.notifyTimer !== null) window.clearTimeout(this.notifyTimer);
+  }
+
+  private offer(id: string) {
+    const transfer = this.transfers.get(id);
+    const file = this.outgoing.get(id);
+    if (!transfer || !file) return;
+
+    const sent = this.send(transfer.peerId, {
+      type: "file-offer",
+      transferId: id,
+      name: transfer.name,
+      size: transfer.size,
+      mimeType: transfer.mimeType,
+      checksum: file.checksum,
+    });
+    this.update(id, { status: sent ? "offered" : "interrupted" });
+  }
+
+  private handleOffer(peerId: string, message: FileOfferMessage) {
+    const offer = normalizeOffer(message);
+    if (!offer) {
+      console.warn(`Ignoring invalid file offer from ${peerId}`);
+      return;
+    }
+
+    const existing = this.getTransfer(peerId, offer.transferId, "incoming");
+    if (existing?.status === "done") {
+      // Our confirmation got lost in the reconnect
+      this.send(peerId, { type: "file-done", transferId: existing.id, ok: true });
+      return;
+    }
+    if (existing) {
+      // The sender is back after a reconnect, carry on from what we have
+      const received = this.incoming.get(existing.id);
+      if (received && (existing.status === "interrupted" || existing.status === "receiving")) {
+        this.update(existing.id, { status: "receiving" });
+        this.send(peerId, {
+          type: "file-response",
+          transferId: existing.id,
+          accepted: true,
+          offset: received.chunks.length,
+        });
+      }
+      return;
+    }
+    // Someone else's ID, or one of ours
+    if (this.transfers.has(offer.transferId)) return;
+
+    this.incoming.set(offer.transferId, { checksum: offer.checksum, chunks: [] });
+    this.set({
+      id: offer.transferId,
+      direction: "incoming",
+      peerId,
+      name: offer.name,
+      size: offer.size,
+      mimeType: offer.mimeType,
+      status: "incoming",
+      transferred: 0,
+    });
+  }
+
+  private handleResponse(peerId: string, id: string, accepted: boolean, offset?: number) {
+    const transfer = this.getTransfer(peerId, id, "outgoing");
+    const file = this.outgoing.get(id);
+    if (!transfer || !file || transfer.status !== "offered") return;
+
+    if (!accepted) {
+      this.outgoing.delete(id);
+      this.update(id, { status: "declined" });
+      return;
+    }
+
+    const start = Number.isInteger(offset) ? Math.min(Math.max(offset!, 0), chunkCount(transfer.size)) : 0;
+    file.nextChunk = start;
+    file.run += 1;
+    this.update(id, {
+      status: "sending",
+      transferred: Math.min(start * FILE_CHUNK_SIZE, transfer.size),
+    });
+    this.pump(id).catch((err) => {
+      console.error(`Error sending ${transfer.name}:`, err);
+      this.fail(id, "Could not read the file");
+    });
+  }
+
+  // Send chunks until the file is out, pausing while the channel is backed up
+  private async pump(id: string) {
+    const transfer = () => this.transfers.get(id);
+    const file = this.outgoing.get(id);
+    if (!file) return;
+    const { peerId, size } = transfer()!;
+    const total = chunkCount(size);
+    const run = file.run;
+    const isCurrent = () => transfer()?.status === "sending" && file.run === run;
+
+    while (isCurrent() && file.nextChunk < total) {
+      const channel = this.getChannel(peerId);
+      if (channel && channel.bufferedAmount > BUFFER_HIGH_WATER) {
+        await this.waitForDrain(channel);
+        continue;
+      }
+
+      const index = file.nextChunk;
+      const start = index * FILE_CHUNK_SIZE;
+      const data = await file.file.slice(start, start + FILE_CHUNK_SIZE).arrayBuffer();
+      // Paused, cancelled or restarted while reading
+      if (!isCurrent()) return;
+
+      if (!this.send(peerId, { type: "file-chunk", transferId: id, index, data })) {
+        this.update(id, { status: "interrupted" });
+        return;
+      }
+      file.nextChunk = index + 1;
+      this.update(id, { transferred: Math.min(start + data.byteLength, size) }, true);
+    }
+    // Done once the recipient confirms the checksum
+  }
+
+  private waitForDrain(channel: RTCDataChannel) {
+    channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        channel.removeEventListener("bufferedamountlow", done);
+        window.clearTimeout(timer);
+        resolve();
+      };
+      const timer = window.setTimeout(done, BUFFER_POLL_INTERVAL);
+      channel.addEventListener("bufferedamountlow", done);
+    });
+  }
+
+  private handleChunk(peerId: string, id: string, index: number, data: unknown) {
+    const transfer = this.getTransfer(peerId, id, "incoming");
+    const received = this.incoming.get(id);
+    if (!transfer || !received || transfer.status !== "receiving") return;
+    if (!(data instanceof ArrayBuffer)) return;
+    // Chunks arrive in order, anything else was resent after a reconnect
+    if (index !== received.chunks.length) return;
+
+    const transferred = transfer.transferred + data.byteLength;
+    if (data.byteLength > FILE_CHUNK_SIZE || transferred > transfer.size) {
+      this.cancel(id);
+      this.update(id, { status: "failed", error: "Received more data than offered" });
+      return;
+    }
+
+    received.chunks.push(data);
+    this.update(id, { transferred }, true);
+    this.verifyIfComplete(id);
+  }
+
+  private verifyIfComplete(id: string) {
+    const transfer = this.transfers.get(id)!;
+    if (transfer.transferred !== transfer.size) return;
+
+    this.verify(id).catch((err) => {
+      console.error(`Error verifying ${transfer.name}:`, err);
+      this.fail(id, "Could not check the file");
+    });
+  }
+
+  private async verify(id: string) {
+    const transfer = this.transfers.get(id)!;
+    const received = this.incoming.get(id);
+    if (!received) return;
+
+    this.update(id, { status: "verifying" });
+    const blob = new Blob(received.chunks, {
+      type: transfer.mimeType || "application/octet-stream",
+    });
+    this.incoming.delete(id);
+    const ok = (await fileChecksum(blob)) === received.checksum;
+    // Cancelled while checking
+    if (this.transfers.get(id)?.status !== "verifying") return;
+    this.send(transfer.peerId, { type: "file-done", transferId: id, ok });
+
+    if (ok) this.update(id, { status: "done", url: URL.createObjectURL(blob) });
+    else this.fail(id, "The file arrived damaged");
+  }
+
+  private getTransfer(peerId: string, id: string, direction?: FileTransfer["direction"]) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || transfer.peerId !== peerId) return null;
+    if (direction && transfer.direction !== direction) return null;
+    return transfer;
+  }
+
+  private isFinished(transfer: FileTransfer) {
+    return ["done", "declined", "cancelled", "failed"].includes(transfer.status);
+  }
+
+  private release(id: string) {
+    this.outgoing.delete(id);
+    this.incoming.delete(id);
+  }
+
+  private fail(id: string, error: string) {
+    this.release(id);
+    this.update(id, { status: "failed", error });
+  }
+
+  private set(transfer: FileTransfer) {
+    this.transfers.set(transfer.id, transfer);
+    this.notify();
+  }
+
+  // Progress comes in many small steps, `throttle` batches those
+  private update(id: string, changes: Partial<FileTransfer>, throttle = false) {
+    const transfer = this.transfers.get(id);
+    if (!transfer) return;
+    this.transfers.set(id, { ...transfer, ...changes });
+
+    if (!throttle) {
+      this.notify();
+    } else if (this.notifyTimer === null) {
+      this.notifyTimer = window.setTimeout(() => this.notify(), NOTIFY_INTERVAL);
+    }
+  }
+
+  private notify() {
+    if (this.notifyTimer !== null) {
+      window.clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+    }
+    this.sorted = [...this.transfers.values()].reverse();
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,242 @@
+// ICE (STUN/TURN) configuration for the RTCPeerConnections PeerJS creates.
+// Static servers come from Vite env variables; TURN credentials can instead
+// be fetched from an endpoint that hands out time-limited credentials, for
+// example the `/turn-credentials` route of the server in `server/`.
+
+export interface IceConfig {
+  stunUrls: string[];
+  turnUrls: string[];
+  turnUsername?: string;
+  turnCredential?: string;
+  /** Endpoint returning time-limited TURN credentials */
+  turnCredentialsUrl?: string;
+  /** "relay" forces all traffic through TURN for locked-down networks */
+  iceTransportPolicy: RTCIceTransportPolicy;
+}
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  urls: string[];
+  /** Lifetime in seconds, if the credentials expire */
+  ttl?: number;
+}
+
+export interface ResolvedIceConfig {
+  rtcConfig: RTCConfiguration;
+  /** When the fetched TURN credentials expire (ms epoch), null if static */
+  expiresAt: number | null;
+  /** The credentials endpoint failed, only the static servers are in */
+  credentialsFailed: boolean;
+}
+
+export type CandidateType = "host" | "srflx" | "prflx" | "relay";
+
+export interface SelectedCandidatePair {
+  local: CandidateType | "unknown";
+  remote: CandidateType | "unknown";
+  protocol?: string;
+}
+
+const defaultStunUrls = [
+  "stun:stun.l.google.com:19302",
+  "stun:global.stun.twilio.com:3478",
+];
+
+// Refresh credentials this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Retry a failed credentials fetch after this long, doubling up to the max
+const RETRY_INITIAL_MS = 5 * 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Stats of an ICE candidate, TypeScript's DOM types lack them
+interface RTCIceCandidateStats extends RTCStats {
+  candidateType?: CandidateType;
+  protocol?: string;
+}
+
+// Split a comma separated env value, an empty string yields an empty list
+const parseList = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export function getIceConfig(): IceConfig {
+  const env = import.meta.env;
+
+  return {
+    stunUrls:
+      env.VITE_STUN_URLS === undefined
+        ? defaultStunUrls
+        : parseList(env.VITE_STUN_URLS),
+    turnUrls: parseList(env.VITE_TURN_URLS),
+    turnUsername: env.VITE_TURN_USERNAME || undefined,
+    turnCredential: env.VITE_TURN_CREDENTIAL || undefined,
+    turnCredentialsUrl: env.VITE_TURN_CREDENTIALS_URL || undefined,
+    iceTransportPolicy:
+      env.VITE_ICE_TRANSPORT_POLICY === "relay" ? "relay" : "all",
+  };
+}
+
+export async function fetchTurnCredentials(url: string): Promise<TurnCredentials> {
+  const response = await fetch(url, { credentials: "include" });
+  if (!response.ok) {
+    throw new Error(`TURN credentials request failed with ${response.status}`);
+  }
+
+  // Accept both our own shape and the common coturn REST API shape
+  const body = await response.json();
+  return {
+    username: body.username,
+    credential: body.credential ?? body.password,
+    urls: body.urls ?? body.uris ?? [],
+    ttl: typeof body.ttl === "number" ? body.ttl : undefined,
+  };
+}
+
+/**
+ * Build the RTCConfiguration for the given ICE config, fetching TURN
+ * credentials first when an endpoint is configured. A failing endpoint falls
+ * back to the static servers so a call can still be attempted.
+ */
+export async function resolveIceConfig(
+  config: IceConfig = getIceConfig(),
+): Promise<ResolvedIceConfig> {
+  const iceServers: RTCIceServer[] = config.stunUrls.map((urls) => ({ urls }));
+  let expiresAt: number | null = null;
+  let turn: RTCIceServer | null = null;
+  let credentialsFailed = false;
+
+  if (config.turnCredentialsUrl) {
+    try {
+      const credentials = await fetchTurnCredentials(config.turnCredentialsUrl);
+      const urls = credentials.urls.length ? credentials.urls : config.turnUrls;
+      if (urls.length) {
+        turn = {
+          urls,
+          username: credentials.username,
+          credential: credentials.credential,
+        };
+      }
+      if (credentials.ttl) {
+        expiresAt = Date.now() + credentials.ttl * 1000;
+      }
+    } catch (err) {
+      console.error("Could not fetch TURN credentials:", err);
+      credentialsFailed = true;
+    }
+  }
+
+  if (!turn && config.turnUrls.length) {
+    turn = {
+      urls: config.turnUrls,
+      username: config.turnUsername,
+      credential: config.turnCredential,
+    };
+  }
+
+  if (turn) iceServers.push(turn);
+
+  if (config.iceTransportPolicy === "relay" && !turn) {
+    console.warn("ICE transport policy is relay but no TURN server is configured");
+  }
+
+  return {
+    rtcConfig: {
+      iceServers,
+      iceTransportPolicy: config.iceTransportPolicy,
+    },
+    expiresAt,
+    credentialsFailed,
+  };
+}
+
+/**
+ * Re-resolve the ICE config shortly before fetched credentials expire and
+ * hand every new config to `onRefresh`. A failed fetch leaves the current
+ * config in place and is retried with backoff, so a network blip doesn't
+ * drop TURN for the rest of the call. Returns a function that stops it.
+ */
+export function scheduleIceRefresh(
+  initial: ResolvedIceConfig,
+  onRefresh: (resolved: ResolvedIceConfig) => void,
+  config: IceConfig = getIceConfig(),
+): () => void {
+  let timer: number | null = null;
+  let stopped = false;
+
+  const refresh = (delay: number, retryDelay: number) => {
+    if (stopped) return;
+
+    timer = window.setTimeout(async () => {
+      const resolved = await resolveIceConfig(config);
+      if (stopped) return;
+
+      if (resolved.credentialsFailed) {
+        refresh(retryDelay, Math.min(retryDelay * 2, RETRY_MAX_MS));
+        return;
+      }
+      onRefresh(resolved);
+      schedule(resolved);
+    }, delay);
+  };
+
+  const schedule = ({ expiresAt, credentialsFailed }: ResolvedIceConfig) => {
+    if (credentialsFailed) {
+      refresh(RETRY_INITIAL_MS, RETRY_INITIAL_MS * 2);
+    } else if (expiresAt !== null) {
+      refresh(Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 5000), RETRY_INITIAL_MS);
+    }
+  };
+
+  schedule(initial);
+
+  return () => {
+    stopped = true;
+    if (timer !== null) window.clearTimeout(timer);
+  };
+}
+
+/** Apply new ICE servers to a live connection so ICE restarts pick them up */
+export function applyIceConfig(pc: RTCPeerConnection, rtcConfig: RTCConfiguration) {
+  try {
+    pc.setConfiguration({ ...pc.getConfiguration(), ...rtcConfig });
+  } catch (err) {
+    console.error("Error updating ICE configuration:", err);
+  }
+}
+
+/** Look up which candidate types the connection's selected pair uses */
+export async function getSelectedCandidatePair(
+  pc: RTCPeerConnection,
+): Promise<SelectedCandidatePair | null> {
+  const stats: RTCStatsReport = await pc.getStats();
+  let pair: RTCIceCandidatePairStats | undefined;
+
+  stats.forEach((report: RTCStats) => {
+    // Chrome points at the pair from the transport, Firefox flags it
+    if (report.type === "transport") {
+      const { selectedCandidatePairId } = report as RTCTransportStats;
+      if (selectedCandidatePairId) pair = stats.get(selectedCandidatePairId);
+    }
+  });
+
+  if (!pair) {
+    stats.forEach((report: RTCStats) => {
+      if (report.type !== "candidate-pair") return;
+      const candidatePair = report as RTCIceCandidatePairStats & { selected?: boolean };
+      if (candidatePair.selected) pair = candidatePair;
+    });
+  }
+
+  if (!pair) return null;
+
+  const local: RTCIceCandidateStats | undefined = stats.get(pair.localCandidateId);
+  const remote: RTCIceCandidateStats | undefined = stats.get(pair.remoteCandidateId);
+  return {
+    local: local?.candidateType ?? "unknown",
+    remote: remote?.candidateType ?? "unknown",
+    protocol: local?.protocol,
+  };
+}
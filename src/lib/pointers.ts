@@ -0,0 +1,181 @@
+import type { AnnotationPoint } from "./annotations";
+
+// Laser pointers and cursors shown over a screen share. Unlike annotations
+// they are not kept: only the latest position of each pointer matters, and
+// a laser's trail fades out within a second.
+
+export type PointerMode = "laser" | "cursor";
+
+export interface PointerUpdate {
+  peerId: string;
+  name: string;
+  color: string;
+  mode: PointerMode;
+  /** Normalized to the annotated surface, null once the pointer left it */
+  position: AnnotationPoint | null;
+}
+
+interface TrackedPointer extends PointerUpdate {
+  trail: { x: number; y: number; time: number }[];
+  updatedAt: number;
+}
+
+/** How long a laser trail takes to fade */
+export const LASER_TRAIL_DURATION = 700;
+
+// Cursors that stopped moving for this long are hidden
+const CURSOR_TIMEOUT = 10000;
+
+// How often our own pointer is sent while it moves
+export const POINTER_SEND_INTERVAL = 40;
+
+const pointerKey = (peerId: string, mode: PointerMode) => `${peerId}:${mode}`;
+
+/**
+ * The pointers over one screen share. Layers subscribe to it like they do to
+ * an AnnotationDocument.
+ */
+export class PointerPresence {
+  private pointers = new Map<string, TrackedPointer>();
+  private listeners = new Set<() => void>();
+
+  get items(): TrackedPointer[] {
+    return [...this.pointers.values()];
+  }
+
+  update(update: PointerUpdate) {
+    const key = pointerKey(update.peerId, update.mode);
+    const now = Date.now();
+    const trail = (this.pointers.get(key)?.trail || []).filter(
+      (point) => now - point.time < LASER_TRAIL_DURATION,
+    );
+    if (update.mode === "laser" && update.position) {
+      trail.push({ ...update.position, time: now });
+    }
+
+    this.pointers.set(key, { ...update, trail, updatedAt: now });
+    this.notify();
+  }
+
+  /** Forget everything a peer was pointing at, e.g. when it leaves */
+  remove(peerId: string) {
+    (["laser", "cursor"] as PointerMode[]).forEach((mode) =>
+      this.pointers.delete(pointerKey(peerId, mode)),
+    );
+    this.notify();
+  }
+
+  /** Forget every pointer, or only those of one mode */
+  clear(mode?: PointerMode) {
+    [...this.pointers.entries()].forEach(([key, pointer]) => {
+      if (!mode || pointer.mode === mode) this.pointers.delete(key);
+    });
+    this.notify();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/** Position received from a peer, kept on the surface */
+export function normalizePointerPosition(value: unknown): AnnotationPoint | null {
+  if (!value || typeof value !== "object") return null;
+  const { x, y } = value as Partial<AnnotationPoint>;
+  return {
+    x: Math.min(1, Math.max(0, Number(x) || 0)),
+    y: Math.min(1, Math.max(0, Number(y) || 0)),
+  };
+}
+
+function drawLaser(ctx: CanvasRenderingContext2D, pointer: TrackedPointer, now: number) {
+  const { width, height } = ctx.canvas;
+
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.strokeStyle = pointer.color;
+  ctx.fillStyle = pointer.color;
+  ctx.shadowColor = pointer.color;
+  ctx.shadowBlur = 12;
+  ctx.lineWidth = 4;
+
+  // Older parts of the trail fade out first
+  pointer.trail.forEach((point, i) => {
+    if (i === 0) return;
+    const previous = pointer.trail[i - 1];
+    ctx.globalAlpha = Math.max(0, 1 - (now - point.time) / LASER_TRAIL_DURATION);
+    ctx.beginPath();
+    ctx.moveTo(previous.x * width, previous.y * height);
+    ctx.lineTo(point.x * width, point.y * height);
+    ctx.stroke();
+  });
+
+  if (pointer.position) {
+    ctx.globalAlpha = 1;
+    ctx.beginPath();
+    ctx.arc(pointer.position.x * width, pointer.position.y * height, 6, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+function drawCursor(ctx: CanvasRenderingContext2D, pointer: TrackedPointer) {
+  if (!pointer.position) return;
+
+  const { width, height } = ctx.canvas;
+  const x = pointer.position.x * width;
+  const y = pointer.position.y * height;
+
+  ctx.save();
+  ctx.fillStyle = pointer.color;
+  ctx.strokeStyle = "#FFFFFF";
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x, y + 16);
+  ctx.lineTo(x + 4.5, y + 12);
+  ctx.lineTo(x + 11, y + 12);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.font = "12px Arial";
+  const textWidth = ctx.measureText(pointer.name).width;
+  const labelX = Math.min(x + 12, width - textWidth - 8);
+  ctx.beginPath();
+  ctx.roundRect(labelX, y + 14, textWidth + 8, 18, 4);
+  ctx.fill();
+  ctx.fillStyle = "#FFFFFF";
+  ctx.textBaseline = "middle";
+  ctx.fillText(pointer.name, labelX + 4, y + 23);
+  ctx.restore();
+}
+
+/**
+ * Clear the canvas and draw every pointer. Returns whether a laser trail is
+ * still fading, in which case the caller should draw again next frame.
+ */
+export function renderPointers(ctx: CanvasRenderingContext2D, pointers: TrackedPointer[]) {
+  const now = Date.now();
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  let fading = false;
+  pointers.forEach((pointer) => {
+    if (pointer.mode === "laser") {
+      drawLaser(ctx, pointer, now);
+      if (pointer.trail.some((point) => now - point.time < LASER_TRAIL_DURATION)) {
+        fading = true;
+      }
+    } else if (now - pointer.updatedAt < CURSOR_TIMEOUT) {
+      drawCursor(ctx, pointer);
+    }
+  });
+  return fading;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { electSuccessor, isTrustedFirstPolicy, normalizePolicy, RoomPolicy } from "./protocol";
+
+const members = (...peerIds: string[]) => peerIds.map((peerId) => ({ peerId }));
+
+describe("electSuccessor", () => {
+  it("picks the member the host let in first", () => {
+    expect(electSuccessor(members("a", "b", "c"), "host", ["c", "a", "b"])).toBe("c");
+  });
+
+  it("skips the host that left and members no longer present", () => {
+    const present = members("host", "b", "c");
+    expect(electSuccessor(present, "host", ["host", "gone", "c", "b"])).toBe("c");
+  });
+
+  it("puts members missing from the join order last, by peer ID", () => {
+    expect(electSuccessor(members("z", "y", "x"), "host", ["y"])).toBe("y");
+    expect(electSuccessor(members("z", "y", "x"), "host", [])).toBe("x");
+  });
+
+  it("arrives at the same successor whatever order the roster is in", () => {
+    const joinOrder = ["b", "a"];
+    expect(electSuccessor(members("a", "b", "c"), "host", joinOrder)).toBe(
+      electSuccessor(members("c", "b", "a"), "host", joinOrder),
+    );
+  });
+
+  it("finds no successor in an empty room", () => {
+    expect(electSuccessor(members("host"), "host", ["host"])).toBeNull();
+  });
+});
+
+describe("isTrustedFirstPolicy", () => {
+  const policy = (changes: Partial<RoomPolicy> = {}): RoomPolicy => ({
+    hostId: "host",
+    locked: true,
+    waitingRoom: false,
+    epoch: 2,
+    joinOrder: ["a", "b"],
+    ...changes,
+  });
+
+  it("takes the host's word for its own policy", () => {
+    expect(isTrustedFirstPolicy("host", policy(), {})).toBe(true);
+  });
+
+  it("doesn't take a member's word alone for who else is host", () => {
+    expect(isTrustedFirstPolicy("a", policy(), {})).toBe(false);
+    expect(isTrustedFirstPolicy("a", policy(), { a: policy() })).toBe(false);
+  });
+
+  it("takes a policy another member reported the same", () => {
+    expect(isTrustedFirstPolicy("b", policy({ joinOrder: ["a", "b", "c"] }), { a: policy() })).toBe(
+      true,
+    );
+    expect(isTrustedFirstPolicy("b", policy({ locked: false }), { a: policy() })).toBe(false);
+    expect(isTrustedFirstPolicy("b", policy({ epoch: 3 }), { a: policy() })).toBe(false);
+  });
+});
+
+describe("normalizePolicy", () => {
+  it("keeps only peer IDs in the join order", () => {
+    const policy = normalizePolicy({
+      hostId: "host",
+      joinOrder: ["a", 42, null, "b"] as unknown as string[],
+    });
+    expect(policy?.joinOrder).toEqual(["a", "b"]);
+  });
+
+  it("defaults a missing join order to empty", () => {
+    expect(normalizePolicy({ hostId: "host" })?.joinOrder).toEqual([]);
+  });
+
+  it("rejects a policy without a host", () => {
+    expect(normalizePolicy({ locked: true })).toBeNull();
+  });
+});
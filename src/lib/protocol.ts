@@ -0,0 +1,360 @@
+import type { DataConnection } from "peerjs";
+import type { AnnotationOp, AnnotationPoint } from "./annotations";
+import type { PointerMode } from "./pointers";
+import type { BoardEntry } from "./whiteboard";
+import type { ChatEntry } from "./chat";
+
+// Messages exchanged over the DataConnection that is opened next to every
+// MediaConnection in a room. Every message carries a `type` discriminator.
+
+export type ParticipantRole = "host" | "participant";
+
+export interface ParticipantInfo {
+  peerId: string;
+  userName: string;
+  isMuted: boolean;
+  isVideoOff: boolean;
+  isScreenSharing: boolean;
+  role: ParticipantRole;
+}
+
+export interface RosterMessage {
+  type: "roster";
+  participant: ParticipantInfo;
+}
+
+// Admission handshake, see admission.ts
+export interface AuthChallengeMessage {
+  type: "auth-challenge";
+  challenge: string;
+}
+
+export interface AuthResponseMessage {
+  type: "auth-response";
+  proof: string;
+  /** Our browser's ID, so a removal outlasts a reload */
+  deviceId?: string;
+}
+
+export type AdmissionRejectReason = "incorrect-password" | "room-locked" | "removed";
+
+export interface AuthResultMessage {
+  type: "auth-result";
+  ok: boolean;
+  reason?: AdmissionRejectReason;
+}
+
+// Room-wide settings owned by the host and replicated to every member, so
+// whoever takes over as host can keep enforcing them
+export interface RoomPolicy {
+  hostId: string;
+  locked: boolean;
+  /** New joiners wait until the host admits them */
+  waitingRoom: boolean;
+  /** Bumped on every change of host so a stale host can tell it was replaced */
+  epoch: number;
+  /** Members in the order the host let them in, orders host succession */
+  joinOrder: string[];
+}
+
+export interface PolicyMessage {
+  type: "policy";
+  policy: RoomPolicy;
+}
+
+// Host-only commands, members ignore them from anyone but the host
+export type ModerationAction = "mute" | "stop-video" | "remove" | "end-meeting";
+
+export interface ModerationMessage {
+  type: "moderation";
+  action: ModerationAction;
+  targetId?: string;
+}
+
+// Waiting room: members tell a verified newcomer to wait, the newcomer
+// knocks with its name and the host decides for the whole room
+export interface WaitingMessage {
+  type: "waiting";
+}
+
+export interface KnockMessage {
+  type: "knock";
+  userName: string;
+}
+
+export interface AdmissionDecisionMessage {
+  type: "admission";
+  peerId: string;
+  admit: boolean;
+  reason?: string;
+}
+
+// Presence: peers heartbeat over the data connection and say goodbye when
+// they leave, so a peer that vanished without closing anything is noticed
+export interface HeartbeatMessage {
+  type: "heartbeat";
+}
+
+export interface LeaveMessage {
+  type: "leave";
+}
+
+// Edit to the annotations on a screen share, see annotations.ts. Presenters
+// send edits of their own share, viewers send theirs to the presenter.
+export interface AnnotationMessage {
+  type: "annotation";
+  /** Peer whose screen share the edit belongs to */
+  presenterId: string;
+  op: AnnotationOp;
+}
+
+// Presenter-only: whether viewers may annotate its screen share
+export interface AnnotationAccessMessage {
+  type: "annotation-access";
+  allowed: boolean;
+}
+
+// Where someone points on a screen share, see pointers.ts. Routed like
+// annotation edits but never stored.
+export interface PointerMessage {
+  type: "pointer";
+  presenterId: string;
+  /** Who is pointing and their name, filled in by the presenter when relaying */
+  pointerId?: string;
+  name?: string;
+  mode: PointerMode;
+  /** Normalized like annotations, null once the pointer left the share */
+  position: AnnotationPoint | null;
+}
+
+// Presenter-only: whether viewers' cursors are shown over its screen share
+export interface CursorPresenceMessage {
+  type: "cursor-presence";
+  enabled: boolean;
+}
+
+// Whiteboard entries, see whiteboard.ts. The same message carries a single
+// edit and the whole board sent to a newly admitted peer.
+export interface BoardMessage {
+  type: "board";
+  entries: BoardEntry[];
+}
+
+// A chat message to everyone, see chat.ts
+export interface ChatMessage {
+  type: "chat";
+  entry: ChatEntry;
+}
+
+// The chat so far, sent to a newly admitted peer
+export interface ChatHistoryMessage {
+  type: "chat-history";
+  entries: ChatEntry[];
+}
+
+// A private chat message, only ever sent to the peer it is for
+export interface DirectMessage {
+  type: "direct";
+  entry: ChatEntry;
+}
+
+// File transfers, see fileTransfer.ts. The sender offers a file, the
+// recipient answers with where to start, and chunks follow in order.
+export interface FileOfferMessage {
+  type: "file-offer";
+  transferId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  /** SHA-256 of the whole file, hex encoded */
+  checksum: string;
+}
+
+export interface FileResponseMessage {
+  type: "file-response";
+  transferId: string;
+  accepted: boolean;
+  /** Chunk to start from, past those already received before a reconnect */
+  offset?: number;
+}
+
+export interface FileChunkMessage {
+  type: "file-chunk";
+  transferId: string;
+  index: number;
+  data: ArrayBuffer;
+}
+
+// The recipient has every chunk and checked them against the checksum
+export interface FileDoneMessage {
+  type: "file-done";
+  transferId: string;
+  ok: boolean;
+}
+
+// Either side calls the transfer off
+export interface FileCancelMessage {
+  type: "file-cancel";
+  transferId: string;
+}
+
+export type FileTransferMessage =
+  | FileOfferMessage
+  | FileResponseMessage
+  | FileChunkMessage
+  | FileDoneMessage
+  | FileCancelMessage;
+
+export const HEARTBEAT_INTERVAL = 5000;
+
+/** A peer we haven't heard from for this long is considered gone */
+export const PEER_TIMEOUT = 15000;
+
+export type RoomMessage =
+  | RosterMessage
+  | AuthChallengeMessage
+  | AuthResponseMessage
+  | AuthResultMessage
+  | PolicyMessage
+  | ModerationMessage
+  | WaitingMessage
+  | KnockMessage
+  | AdmissionDecisionMessage
+  | HeartbeatMessage
+  | LeaveMessage
+  | AnnotationMessage
+  | AnnotationAccessMessage
+  | PointerMessage
+  | CursorPresenceMessage
+  | BoardMessage
+  | ChatMessage
+  | ChatHistoryMessage
+  | DirectMessage
+  | FileTransferMessage;
+
+// Messages a peer may send before it has been admitted
+export const ADMISSION_MESSAGE_TYPES: RoomMessage["type"][] = [
+  "auth-challenge",
+  "auth-response",
+  "auth-result",
+  "waiting",
+  "knock",
+  "heartbeat",
+  "leave",
+];
+
+// Label of the room data connection, other connections are ignored
+export const ROOM_CONNECTION_LABEL = "room";
+
+export function isRoomMessage(data: unknown): data is RoomMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as { type?: unknown }).type === "string"
+  );
+}
+
+/**
+ * Which side of a pair opens the data connection and places the media call:
+ * the peer with the smaller ID. Both sides agree on it without talking, so
+ * two peers never call each other at the same time.
+ */
+export function isDialer(localId: string, remoteId: string): boolean {
+  return localId < remoteId;
+}
+
+/** Send a message if the connection is open, returns whether it was sent */
+export function sendMessage(
+  connection: DataConnection | undefined,
+  message: RoomMessage,
+): boolean {
+  if (!connection?.open) return false;
+
+  try {
+    connection.send(message);
+    return true;
+  } catch (err) {
+    console.error(`Error sending ${message.type} to ${connection.peer}:`, err);
+    return false;
+  }
+}
+
+/** Roster record received from a peer, keyed to the connection's peer ID */
+export function normalizeParticipant(
+  peerId: string,
+  participant: Partial<ParticipantInfo>,
+): ParticipantInfo {
+  return {
+    peerId,
+    userName: String(participant.userName || "Participant").slice(0, 64),
+    isMuted: Boolean(participant.isMuted),
+    isVideoOff: Boolean(participant.isVideoOff),
+    isScreenSharing: Boolean(participant.isScreenSharing),
+    role: participant.role === "host" ? "host" : "participant",
+  };
+}
+
+// Longest join order a policy may carry, more than a mesh call ever holds
+const MAX_JOIN_ORDER = 256;
+
+export function normalizePolicy(policy: Partial<RoomPolicy>): RoomPolicy | null {
+  if (!policy || typeof policy.hostId !== "string" || !policy.hostId) return null;
+
+  return {
+    hostId: policy.hostId,
+    locked: Boolean(policy.locked),
+    waitingRoom: Boolean(policy.waitingRoom),
+    epoch: Math.max(0, Math.floor(Number(policy.epoch) || 0)),
+    joinOrder: Array.isArray(policy.joinOrder)
+      ? policy.joinOrder
+          .filter((peerId): peerId is string => typeof peerId === "string")
+          .slice(0, MAX_JOIN_ORDER)
+      : [],
+  };
+}
+
+/**
+ * Whether a peer without a room policy can take `policy` from `senderId`:
+ * either the host it names sent it, or another member already reported the
+ * same one in `reports`. One member alone can't vouch for someone else's.
+ */
+export function isTrustedFirstPolicy(
+  senderId: string,
+  policy: RoomPolicy,
+  reports: Record<string, RoomPolicy>,
+): boolean {
+  if (policy.hostId === senderId) return true;
+
+  return Object.entries(reports).some(
+    ([reporterId, report]) =>
+      reporterId !== senderId &&
+      report.hostId === policy.hostId &&
+      report.epoch === policy.epoch &&
+      report.locked === policy.locked &&
+      report.waitingRoom === policy.waitingRoom,
+  );
+}
+
+/**
+ * Pick the next host when `previousHostId` is gone: the member the host let
+ * in first according to the replicated `joinOrder`, so no member's own clock
+ * or claims come into it. Members missing from it come last, and ties among
+ * them are broken by peer ID. Every member runs this on the same policy and
+ * roster, so they all arrive at the same successor without a vote.
+ */
+export function electSuccessor(
+  members: Pick<ParticipantInfo, "peerId">[],
+  previousHostId: string,
+  joinOrder: string[],
+): string | null {
+  const rank = (peerId: string) => {
+    const index = joinOrder.indexOf(peerId);
+    return index === -1 ? Infinity : index;
+  };
+  const candidates = members
+    .map((member) => member.peerId)
+    .filter((peerId) => peerId && peerId !== previousHostId)
+    .sort((a, b) => rank(a) - rank(b) || (a < b ? -1 : 1));
+
+  return candidates[0] ?? null;
+}
@@ -0,0 +1,165 @@
+import type { Peer } from "peerjs";
+
+// Keeps a Peer registered with the PeerServer through network blips. PeerJS
+// only reports "disconnected" and leaves recovery to the app, so this drives
+// `peer.reconnect()` with exponential backoff until the server accepts our
+// ID again or we run out of attempts.
+
+export type ReconnectState =
+  | { status: "connected" }
+  | { status: "reconnecting"; attempt: number; maxAttempts: number }
+  | { status: "failed" };
+
+export interface ReconnectOptions {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  /** Give up on an attempt the server hasn't answered by then */
+  attemptTimeout?: number;
+}
+
+// Errors PeerJS raises while it is cut off from the server. Once the peer has
+// been open they only disconnect it, so they are ours to recover from.
+export const RECOVERABLE_PEER_ERRORS = [
+  "network",
+  "server-error",
+  "socket-error",
+  "socket-closed",
+  "unavailable-id",
+];
+
+export class PeerReconnector {
+  private readonly peer: Peer;
+  private readonly onStateChange: (state: ReconnectState) => void;
+  private readonly onReconnected: () => void;
+  private readonly maxAttempts: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly attemptTimeout: number;
+  private state: ReconnectState = { status: "connected" };
+  private retryTimer: number | null = null;
+  private timeoutTimer: number | null = null;
+  private stopped = false;
+
+  constructor(
+    peer: Peer,
+    onStateChange: (state: ReconnectState) => void,
+    onReconnected: () => void,
+    options: ReconnectOptions = {},
+  ) {
+    this.peer = peer;
+    this.onStateChange = onStateChange;
+    this.onReconnected = onReconnected;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.attemptTimeout = options.attemptTimeout ?? 10000;
+
+    peer.on("disconnected", this.handleDisconnected);
+    peer.on("open", this.handleOpen);
+    window.addEventListener("online", this.handleOnline);
+  }
+
+  /** Start over after giving up, e.g. from a "Try again" button */
+  retry() {
+    if (this.stopped || this.state.status !== "failed") return;
+    this.scheduleAttempt(0);
+  }
+
+  stop() {
+    this.stopped = true;
+    this.clearTimers();
+    this.peer.off("disconnected", this.handleDisconnected);
+    this.peer.off("open", this.handleOpen);
+    window.removeEventListener("online", this.handleOnline);
+  }
+
+  private handleDisconnected = () => {
+    if (this.stopped || this.peer.destroyed) return;
+
+    if (this.timeoutTimer !== null) {
+      window.clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+
+    // Either the first drop or a failed attempt, both mean try again later
+    const attempt = this.state.status === "reconnecting" ? this.state.attempt : 0;
+    this.scheduleAttempt(attempt);
+  };
+
+  private handleOpen = () => {
+    if (this.stopped || this.state.status === "connected") return;
+
+    console.log("Reconnected to the PeerServer");
+    this.clearTimers();
+    this.setState({ status: "connected" });
+    this.onReconnected();
+  };
+
+  // Coming back online is the best moment to retry, don't wait out the backoff
+  private handleOnline = () => {
+    if (this.stopped || this.state.status !== "reconnecting" || this.retryTimer === null) return;
+
+    window.clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.attempt();
+  };
+
+  private scheduleAttempt(previousAttempt: number) {
+    if (this.retryTimer !== null) return;
+
+    const attempt = previousAttempt + 1;
+    if (attempt > this.maxAttempts) {
+      console.warn(`Giving up reconnecting after ${this.maxAttempts} attempts`);
+      this.setState({ status: "failed" });
+      return;
+    }
+
+    this.setState({ status: "reconnecting", attempt, maxAttempts: this.maxAttempts });
+
+    const delay = Math.min(this.baseDelay * 2 ** (attempt - 1), this.maxDelay);
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.attempt();
+    }, delay * (0.75 + Math.random() * 0.5));
+  }
+
+  private attempt() {
+    if (this.stopped || this.peer.destroyed) return;
+
+    console.log(`Reconnecting to the PeerServer, attempt ${this.currentAttempt}`);
+    try {
+      this.peer.reconnect();
+    } catch (err) {
+      console.error("Error reconnecting peer:", err);
+      this.scheduleAttempt(this.currentAttempt);
+      return;
+    }
+
+    // A socket that never opens nor closes would stall us, cut it off
+    this.timeoutTimer = window.setTimeout(() => {
+      this.timeoutTimer = null;
+      if (!this.peer.open) this.peer.disconnect();
+    }, this.attemptTimeout);
+  }
+
+  private get currentAttempt() {
+    return this.state.status === "reconnecting" ? this.state.attempt : 0;
+  }
+
+  private setState(state: ReconnectState) {
+    this.state = state;
+    this.onStateChange(state);
+  }
+
+  private clearTimers() {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.timeoutTimer !== null) {
+      window.clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+  }
+}
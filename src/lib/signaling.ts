@@ -0,0 +1,448 @@
+import { Peer, DataConnection, PeerOptions } from "peerjs";
+
+// Events a transport delivers to the room:
+// - "join": a peer has just entered the room
+// - "announce": a peer already in the room is (re)announcing its presence
+// - "leave": a peer is leaving the room
+export type SignalingEventType = "join" | "announce" | "leave";
+
+export interface SignalingEvent {
+  action: SignalingEventType;
+  peerId: string;
+}
+
+export type SignalingHandler = (event: SignalingEvent) => void;
+
+/**
+ * Room discovery channel. Implementations only carry presence events; the
+ * actual media and data connections are always made peer-to-peer by PeerJS.
+ */
+export interface SignalingTransport {
+  /** Start receiving room events and announce `peerId` as joined */
+  join(peerId: string): void;
+  /** Re-announce our presence to everyone in the room */
+  announce(): void;
+  /** Announce that we are leaving and release all resources */
+  leave(): void;
+  /** Subscribe to room events, returns an unsubscribe function */
+  on(handler: SignalingHandler): () => void;
+}
+
+export type SignalingTransportKind =
+  | "broadcast-channel"
+  | "peer-rendezvous"
+  | "websocket";
+
+// Shared listener bookkeeping for the transports below
+abstract class BaseTransport implements SignalingTransport {
+  protected readonly roomId: string;
+  protected myPeerId: string | null = null;
+  private handlers = new Set<SignalingHandler>();
+
+  constructor(roomId: string) {
+    this.roomId = roomId;
+  }
+
+  abstract join(peerId: string): void;
+  abstract announce(): void;
+  abstract leave(): void;
+
+  on(handler: SignalingHandler) {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  protected emit(event: SignalingEvent) {
+    // Ignore our own announcements
+    if (!event.peerId || event.peerId === this.myPeerId) return;
+
+    this.handlers.forEach((handler) => {
+      try {
+        handler(event);
+      } catch (err) {
+        console.error("Error in signaling handler:", err);
+      }
+    });
+  }
+}
+
+/**
+ * Discovery between tabs of the same browser profile using a
+ * BroadcastChannel named `room-${roomId}`.
+ */
+export class BroadcastChannelTransport extends BaseTransport {
+  private channel: BroadcastChannel | null = null;
+
+  join(peerId: string) {
+    this.myPeerId = peerId;
+
+    try {
+      this.channel = new BroadcastChannel(`room-${this.roomId}`);
+      this.channel.onmessage = (event: MessageEvent) => {
+        const { peerId, action } = event.data || {};
+        this.emit({ peerId, action });
+        // There is no server to tell a newcomer who is here, so answer it
+        if (action === "join" && peerId !== this.myPeerId) this.post("announce");
+      };
+    } catch (err) {
+      console.error("Error creating BroadcastChannel:", err);
+      return;
+    }
+
+    this.post("join");
+  }
+
+  announce() {
+    this.post("announce");
+  }
+
+  leave() {
+    this.post("leave");
+
+    try {
+      if (this.channel) {
+        console.log(`Closing BroadcastChannel for room ${this.roomId}`);
+        this.channel.close();
+        this.channel = null;
+      }
+    } catch (err) {
+      console.error("Error closing BroadcastChannel:", err);
+    }
+  }
+
+  private post(action: SignalingEventType) {
+    try {
+      if (this.channel && this.myPeerId) {
+        this.channel.postMessage({ peerId: this.myPeerId, action });
+      }
+    } catch (err) {
+      console.error("Error sending announcement:", err);
+    }
+  }
+}
+
+/**
+ * Cross-machine discovery without any server of our own. The first peer in
+ * a room claims a well-known "rendezvous" peer ID derived from the room ID
+ * on the PeerJS server and relays presence events between everyone who
+ * connects to it. When the rendezvous owner leaves, the remaining members
+ * race to claim the ID again.
+ */
+export class PeerRendezvousTransport extends BaseTransport {
+  private readonly peer: Peer;
+  private readonly peerOptions: PeerOptions;
+  private hubPeer: Peer | null = null;
+  private hubMembers: Record<string, DataConnection> = {};
+  private hubConnection: DataConnection | null = null;
+  private retryTimer: number | null = null;
+  private closed = false;
+
+  constructor(roomId: string, peer: Peer, peerOptions: PeerOptions = {}) {
+    super(roomId);
+    this.peer = peer;
+    this.peerOptions = peerOptions;
+  }
+
+  get rendezvousId() {
+    return `peermeet-room-${this.roomId.replace(/[^A-Za-z0-9_-]/g, "")}`;
+  }
+
+  join(peerId: string) {
+    this.myPeerId = peerId;
+    this.closed = false;
+    this.claimRendezvous();
+  }
+
+  announce() {
+    this.send("announce");
+  }
+
+  leave() {
+    this.send("leave");
+    this.closed = true;
+
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    try {
+      this.hubConnection?.close();
+      this.hubConnection = null;
+      Object.values(this.hubMembers).forEach((conn) => conn.close());
+      this.hubMembers = {};
+      this.hubPeer?.destroy();
+      this.hubPeer = null;
+    } catch (err) {
+      console.error("Error closing rendezvous connections:", err);
+    }
+  }
+
+  // Try to become the rendezvous for this room, or connect to the existing one
+  private claimRendezvous() {
+    if (this.closed) return;
+
+    const hub = new Peer(this.rendezvousId, this.peerOptions);
+
+    hub.on("open", () => {
+      console.log(`Became rendezvous for room ${this.roomId}`);
+      this.hubPeer = hub;
+    });
+
+    hub.on("connection", (conn) => {
+      conn.on("open", () => {
+        this.hubMembers[conn.peer] = conn;
+
+        // Tell the newcomer about everybody already in the room
+        conn.send({ peerId: this.myPeerId, action: "announce" });
+        Object.keys(this.hubMembers).forEach((memberId) => {
+          if (memberId !== conn.peer) {
+            conn.send({ peerId: memberId, action: "announce" });
+          }
+        });
+      });
+
+      conn.on("data", (data: SignalingEvent) => {
+        this.relay(data, conn.peer);
+      });
+
+      conn.on("close", () => {
+        if (this.hubMembers[conn.peer] === conn) {
+          delete this.hubMembers[conn.peer];
+          this.relay({ peerId: conn.peer, action: "leave" }, conn.peer);
+        }
+      });
+    });
+
+    // A rendezvous cut off from the server can't be reached by newcomers,
+    // give the ID up so it can be claimed again
+    hub.on("disconnected", () => {
+      if (this.hubPeer !== hub) return;
+      console.log(`Rendezvous for room ${this.roomId} lost the server`);
+      Object.values(this.hubMembers).forEach((conn) => conn.close());
+      this.hubMembers = {};
+      this.hubPeer = null;
+      hub.destroy();
+      this.scheduleRetry();
+    });
+
+    hub.on("error", (err) => {
+      hub.destroy();
+
+      if (err.type === "unavailable-id") {
+        // Somebody else already holds the rendezvous, join through them
+        this.connectToRendezvous();
+      } else {
+        console.error("Rendezvous peer error:", err);
+        this.scheduleRetry();
+      }
+    });
+  }
+
+  private connectToRendezvous() {
+    if (this.closed) return;
+
+    // Cut off from the PeerServer we can't reach anyone, try again later
+    if (this.peer.disconnected) {
+      this.scheduleRetry();
+      return;
+    }
+
+    const conn = this.peer.connect(this.rendezvousId, { reliable: true });
+    this.hubConnection = conn;
+
+    // The rendezvous may have left between our claim and this connect
+    const openTimeout = window.setTimeout(() => {
+      if (conn.open || this.hubConnection !== conn) return;
+      conn.close();
+      this.hubConnection = null;
+      this.scheduleRetry();
+    }, 10000);
+
+    conn.on("open", () => {
+      window.clearTimeout(openTimeout);
+      console.log(`Connected to rendezvous for room ${this.roomId}`);
+      this.send("join");
+    });
+
+    conn.on("data", (data: SignalingEvent) => {
+      this.emit(data);
+    });
+
+    conn.on("close", () => {
+      window.clearTimeout(openTimeout);
+      if (this.hubConnection !== conn) return;
+      console.log(`Rendezvous for room ${this.roomId} went away`);
+      this.hubConnection = null;
+      this.scheduleRetry();
+    });
+
+    conn.on("error", (err) => {
+      console.error("Rendezvous connection error:", err);
+    });
+  }
+
+  // Jitter the retry so the remaining members don't all claim at once
+  private scheduleRetry() {
+    if (this.closed || this.retryTimer !== null) return;
+
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.claimRendezvous();
+    }, 500 + Math.random() * 1500);
+  }
+
+  // Forward an event from one member to the hub owner and all other members
+  private relay(event: SignalingEvent, fromPeerId: string) {
+    if (!event || event.peerId !== fromPeerId) return;
+
+    this.emit(event);
+    Object.entries(this.hubMembers).forEach(([memberId, conn]) => {
+      if (memberId !== fromPeerId && conn.open) {
+        conn.send(event);
+      }
+    });
+  }
+
+  private send(action: SignalingEventType) {
+    if (!this.myPeerId) return;
+
+    const event: SignalingEvent = { peerId: this.myPeerId, action };
+
+    try {
+      if (this.hubPeer) {
+        Object.values(this.hubMembers).forEach((conn) => {
+          if (conn.open) conn.send(event);
+        });
+      } else if (this.hubConnection?.open) {
+        this.hubConnection.send(event);
+      }
+    } catch (err) {
+      console.error("Error sending announcement:", err);
+    }
+  }
+}
+
+/**
+ * Discovery through the self-hosted signaling server in `server/`. The
+ * server tracks room membership and sends "leave" for us if the socket drops.
+ */
+export class WebSocketTransport extends BaseTransport {
+  private readonly url: string;
+  private socket: WebSocket | null = null;
+  private retryTimer: number | null = null;
+  private retryDelay = 1000;
+  private closed = false;
+
+  constructor(roomId: string, url: string) {
+    super(roomId);
+    this.url = url;
+  }
+
+  join(peerId: string) {
+    this.myPeerId = peerId;
+    this.closed = false;
+    this.connect();
+  }
+
+  announce() {
+    this.send({ type: "announce" });
+  }
+
+  leave() {
+    this.send({ type: "leave" });
+    this.closed = true;
+
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    try {
+      this.socket?.close();
+      this.socket = null;
+    } catch (err) {
+      console.error("Error closing signaling socket:", err);
+    }
+  }
+
+  private connect() {
+    if (this.closed) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (err) {
+      console.error("Error creating signaling socket:", err);
+      this.scheduleRetry();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`Connected to signaling server for room ${this.roomId}`);
+      this.retryDelay = 1000;
+      this.send({ type: "join", roomId: this.roomId, peerId: this.myPeerId });
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        const { peerId, action } = JSON.parse(event.data);
+        this.emit({ peerId, action });
+      } catch (err) {
+        console.error("Error parsing signaling message:", err);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      console.log(`Signaling socket for room ${this.roomId} closed`);
+      this.socket = null;
+      this.scheduleRetry();
+    };
+  }
+
+  private scheduleRetry() {
+    if (this.closed || this.retryTimer !== null) return;
+
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, 30000);
+  }
+
+  private send(message: Record<string, unknown>) {
+    try {
+      if (this.socket?.readyState === WebSocket.OPEN) {
+        this.socket.send(JSON.stringify(message));
+      }
+    } catch (err) {
+      console.error("Error sending to signaling server:", err);
+    }
+  }
+}
+
+export interface SignalingTransportOptions {
+  peerOptions?: PeerOptions;
+  signalingUrl?: string;
+}
+
+export function createSignalingTransport(
+  kind: SignalingTransportKind,
+  roomId: string,
+  peer: Peer,
+  options: SignalingTransportOptions = {},
+): SignalingTransport {
+  switch (kind) {
+    case "broadcast-channel":
+      return new BroadcastChannelTransport(roomId);
+    case "websocket":
+      return new WebSocketTransport(roomId, options.signalingUrl);
+    case "peer-rendezvous":
+    default:
+      return new PeerRendezvousTransport(roomId, peer, options.peerOptions);
+  }
+}
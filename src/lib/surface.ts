@@ -0,0 +1,68 @@
+import type { CSSProperties } from "react";
+
+// Annotations and pointers are normalized to the shared picture itself, not
+// to the element showing it. A video with object-contain is letterboxed, and
+// where the picture lands depends on each viewer's window and on the share's
+// resolution, so layers are laid over the picture's rectangle only.
+
+export interface SurfaceRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Where object-contain puts content of the given size inside a box */
+export function containRect(
+  boxWidth: number,
+  boxHeight: number,
+  contentWidth: number,
+  contentHeight: number,
+): SurfaceRect {
+  // No picture yet, use the whole box
+  if (!contentWidth || !contentHeight) {
+    return { left: 0, top: 0, width: boxWidth, height: boxHeight };
+  }
+
+  const scale = Math.min(boxWidth / contentWidth, boxHeight / contentHeight);
+  const width = contentWidth * scale;
+  const height = contentHeight * scale;
+  return {
+    left: (boxWidth - width) / 2,
+    top: (boxHeight - height) / 2,
+    width,
+    height,
+  };
+}
+
+/** Picture rectangle of a video element, relative to its offset parent */
+export function getVideoSurface(video: HTMLVideoElement): SurfaceRect {
+  const rect = containRect(
+    video.clientWidth,
+    video.clientHeight,
+    video.videoWidth,
+    video.videoHeight,
+  );
+  return { ...rect, left: rect.left + video.offsetLeft, top: rect.top + video.offsetTop };
+}
+
+export const sameSurface = (a: SurfaceRect | null, b: SurfaceRect | null) =>
+  a === b ||
+  (!!a &&
+    !!b &&
+    a.left === b.left &&
+    a.top === b.top &&
+    a.width === b.width &&
+    a.height === b.height);
+
+/** Absolute position of a layer over the surface, the whole parent until it is known */
+export const surfaceStyle = (surface?: SurfaceRect | null): CSSProperties =>
+  surface
+    ? {
+        position: "absolute",
+        left: surface.left,
+        top: surface.top,
+        width: surface.width,
+        height: surface.height,
+      }
+    : { position: "absolute", inset: 0 };
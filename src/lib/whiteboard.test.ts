@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  batchBoardEntries,
+  MAX_ENTRIES_PER_MESSAGE,
+  normalizeBoardEntries,
+  StickyNote,
+  STICKY_COLORS,
+  WhiteboardDocument,
+} from "./whiteboard";
+
+const sticky = (id: string, x = 0): StickyNote => ({
+  id,
+  kind: "sticky",
+  x,
+  y: 0,
+  width: 200,
+  height: 200,
+  color: STICKY_COLORS[0],
+  text: id,
+});
+
+// A board with `count` notes, every third one deleted again
+const createBusyBoard = (count: number) => {
+  const doc = new WhiteboardDocument();
+  doc.setPeerId("host");
+  for (let i = 0; i < count; i++) {
+    doc.set(sticky(`note-${i}`, i));
+    if (i % 3 === 0) doc.delete(`note-${i}`);
+  }
+  return doc;
+};
+
+describe("batchBoardEntries", () => {
+  it("keeps every batch within what a receiver accepts", () => {
+    const doc = createBusyBoard(MAX_ENTRIES_PER_MESSAGE * 2 + 10);
+    const batches = batchBoardEntries(doc.state);
+
+    expect(batches).toHaveLength(3);
+    batches.forEach((batch) => expect(batch.length).toBeLessThanOrEqual(MAX_ENTRIES_PER_MESSAGE));
+    expect(batches.flat()).toEqual(doc.state);
+  });
+
+  it("sends nothing for an empty board", () => {
+    expect(batchBoardEntries([])).toEqual([]);
+  });
+});
+
+describe("syncing a board to a late joiner", () => {
+  it("brings over a board larger than one message, tombstones included", () => {
+    const board = createBusyBoard(MAX_ENTRIES_PER_MESSAGE + 500);
+    const joiner = new WhiteboardDocument();
+    joiner.setPeerId("joiner");
+
+    batchBoardEntries(board.state).forEach((entries) => {
+      // Through the wire format, like a board message
+      joiner.merge(normalizeBoardEntries(JSON.parse(JSON.stringify(entries))));
+    });
+
+    expect(joiner.state).toHaveLength(board.state.length);
+    expect(joiner.items).toEqual(board.items);
+    expect(joiner.get("note-0")).toBeUndefined();
+  });
+
+  it("drops what goes beyond the cap in a single message", () => {
+    const board = createBusyBoard(MAX_ENTRIES_PER_MESSAGE + 1);
+    expect(normalizeBoardEntries(board.state)).toHaveLength(MAX_ENTRIES_PER_MESSAGE);
+  });
+});
@@ -0,0 +1,354 @@
+import {
+  Annotation,
+  AnnotationPoint,
+  drawAnnotation,
+  findAnnotationAt,
+  getAnnotationBounds,
+  normalizeAnnotation,
+} from "./annotations";
+
+// The shared whiteboard. Unlike a screen share it has no owner every edit
+// could go through, any participant draws on it at any time, so every peer
+// keeps a replica and they converge by merging.
+//
+// The replica is a last-writer-wins map from item ID to item: every write
+// carries a Lamport stamp and the higher stamp wins, whatever order writes
+// arrive in. Deleting leaves a tombstone so an older write can't bring the
+// item back. Merging is commutative and idempotent, so a peer can send its
+// whole state to a late joiner and everyone can resend freely.
+//
+// Board items reuse the annotation shapes on a 1×1 surface, so their
+// coordinates and sizes are plain board units instead of fractions.
+
+export interface StickyNote {
+  id: string;
+  kind: "sticky";
+  authorId?: string;
+  authorName?: string;
+  /** Top-left corner and size in board units */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  text: string;
+}
+
+export type BoardItem = Annotation | StickyNote;
+
+/** Lamport clock plus the writer's peer ID to break ties */
+export interface BoardStamp {
+  clock: number;
+  peerId: string;
+}
+
+export interface BoardEntry {
+  id: string;
+  /** Null once deleted */
+  item: BoardItem | null;
+  stamp: BoardStamp;
+  /** Stamp of the first write, orders items from back to front */
+  created: BoardStamp;
+}
+
+export const STICKY_COLORS = ["#FFF475", "#FFB3C7", "#B4F8C8", "#A0E7FF", "#E0C3FC"];
+export const STICKY_SIZE = 200;
+export const STICKY_FONT_SIZE = 18;
+export const STICKY_PADDING = 14;
+export const STICKY_LINE_HEIGHT = 1.3;
+export const STICKY_TEXT_COLOR = "#1F2937";
+export const MAX_STICKY_TEXT = 1000;
+
+/** Most entries a board message may carry, receivers drop the rest */
+export const MAX_ENTRIES_PER_MESSAGE = 2000;
+
+const compareStamps = (a: BoardStamp, b: BoardStamp) =>
+  a.clock !== b.clock ? a.clock - b.clock : a.peerId < b.peerId ? -1 : a.peerId > b.peerId ? 1 : 0;
+
+export class WhiteboardDocument {
+  private entries = new Map<string, BoardEntry>();
+  private listeners = new Set<() => void>();
+  private clock = 0;
+  private peerId = "";
+  private sorted: BoardItem[] = [];
+
+  /** Our peer ID, stamped on every local write */
+  setPeerId(peerId: string) {
+    this.peerId = peerId;
+  }
+
+  /** Live items from back to front */
+  get items(): BoardItem[] {
+    return this.sorted;
+  }
+
+  /** Everything including tombstones, to bring another replica up to date */
+  get state(): BoardEntry[] {
+    return [...this.entries.values()];
+  }
+
+  get isEmpty() {
+    return this.entries.size === 0;
+  }
+
+  get(id: string): BoardItem | undefined {
+    return this.entries.get(id)?.item || undefined;
+  }
+
+  /** Add or replace an item locally, returns the entry to send to peers */
+  set(item: BoardItem): BoardEntry {
+    return this.write(item.id, item);
+  }
+
+  /** Delete an item locally, returns the entry to send to peers */
+  delete(id: string): BoardEntry {
+    return this.write(id, null);
+  }
+
+  /** Merge entries from another replica */
+  merge(entries: BoardEntry[]) {
+    let changed = false;
+    entries.forEach((entry) => {
+      this.clock = Math.max(this.clock, entry.stamp.clock);
+      if (this.mergeEntry(entry)) changed = true;
+    });
+    if (changed) this.update();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private write(id: string, item: BoardItem | null): BoardEntry {
+    this.clock += 1;
+    const stamp = { clock: this.clock, peerId: this.peerId };
+    const entry: BoardEntry = {
+      id,
+      item,
+      stamp,
+      created: this.entries.get(id)?.created || stamp,
+    };
+    this.entries.set(id, entry);
+    this.update();
+    return entry;
+  }
+
+  private mergeEntry(entry: BoardEntry) {
+    const current = this.entries.get(entry.id);
+    if (current && compareStamps(entry.stamp, current.stamp) <= 0) return false;
+
+    // Replicas may have seen different first writes, settle on the earliest
+    const created =
+      current && compareStamps(current.created, entry.created) < 0
+        ? current.created
+        : entry.created;
+    this.entries.set(entry.id, { ...entry, created });
+    return true;
+  }
+
+  private update() {
+    this.sorted = [...this.entries.values()]
+      .filter((entry) => entry.item)
+      .sort((a, b) => compareStamps(a.created, b.created))
+      .map((entry) => entry.item as BoardItem);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Split text into lines that fit the given width, breaking between words
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  return text.split("\n").flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = "";
+    paragraph.split(" ").forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+    return lines;
+  });
+}
+
+export const STICKY_FONT = `${STICKY_FONT_SIZE}px system-ui, sans-serif`;
+
+/** Lines of a note's text as drawn, wrapped to the note's width */
+export function wrapStickyText(ctx: CanvasRenderingContext2D, note: StickyNote): string[] {
+  ctx.save();
+  ctx.font = STICKY_FONT;
+  const lines = wrapText(ctx, note.text, note.width - STICKY_PADDING * 2);
+  ctx.restore();
+  return lines;
+}
+
+export function drawStickyNote(ctx: CanvasRenderingContext2D, note: StickyNote) {
+  ctx.save();
+  ctx.shadowColor = "rgba(0, 0, 0, 0.2)";
+  ctx.shadowBlur = 8;
+  ctx.shadowOffsetY = 3;
+  ctx.fillStyle = note.color;
+  ctx.fillRect(note.x, note.y, note.width, note.height);
+  ctx.restore();
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(note.x, note.y, note.width, note.height);
+  ctx.clip();
+  ctx.font = STICKY_FONT;
+  ctx.fillStyle = STICKY_TEXT_COLOR;
+  ctx.textBaseline = "top";
+  wrapStickyText(ctx, note).forEach((line, i) => {
+    ctx.fillText(line, note.x + STICKY_PADDING, note.y + STICKY_PADDING + i * STICKY_FONT_SIZE * STICKY_LINE_HEIGHT);
+  });
+  ctx.restore();
+}
+
+export function drawBoardItem(ctx: CanvasRenderingContext2D, item: BoardItem) {
+  if (item.kind === "sticky") drawStickyNote(ctx, item);
+  else drawAnnotation(ctx, item, 1, 1);
+}
+
+/** Box around an item in board units */
+export function getBoardItemBounds(ctx: CanvasRenderingContext2D, item: BoardItem) {
+  if (item.kind === "sticky") {
+    return { x: item.x, y: item.y, width: item.width, height: item.height };
+  }
+  return getAnnotationBounds(ctx, item, 1, 1);
+}
+
+/** Topmost item under a point in board units, `tolerance` in board units too */
+export function findBoardItemAt(
+  ctx: CanvasRenderingContext2D,
+  items: BoardItem[],
+  point: AnnotationPoint,
+  tolerance: number,
+): BoardItem | null {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    const hit =
+      item.kind === "sticky"
+        ? point.x >= item.x &&
+          point.x <= item.x + item.width &&
+          point.y >= item.y &&
+          point.y <= item.y + item.height
+        : findAnnotationAt(ctx, [item], point, tolerance, 1, 1);
+    if (hit) return item;
+  }
+  return null;
+}
+
+/** Shift an item by an offset in board units */
+export function translateBoardItem(item: BoardItem, dx: number, dy: number): BoardItem {
+  const move = (point: AnnotationPoint) => ({ ...point, x: point.x + dx, y: point.y + dy });
+
+  switch (item.kind) {
+    case "sticky":
+    case "text":
+      return { ...item, x: item.x + dx, y: item.y + dy };
+    case "shape":
+      return { ...item, start: move(item.start), end: move(item.end) };
+    case "stroke":
+      return { ...item, points: item.points.map(move) };
+  }
+}
+
+// Board coordinates are unbounded but have to be real numbers
+const finite = (value: unknown) => (Number.isFinite(Number(value)) ? Number(value) : 0);
+
+const normalizeStamp = (value: unknown): BoardStamp | null => {
+  const { clock, peerId } = (value || {}) as Partial<BoardStamp>;
+  return Number.isInteger(clock) && (clock as number) >= 0 && typeof peerId === "string"
+    ? { clock: clock as number, peerId }
+    : null;
+};
+
+/** Board item received from a peer or read from a file, sticky notes with a palette colour */
+export function normalizeBoardItem(value: unknown): BoardItem | null {
+  if (!value || typeof value !== "object") return null;
+  const item = value as Partial<StickyNote>;
+
+  if (item.kind === "sticky") {
+    if (typeof item.id !== "string" || !item.id) return null;
+    return {
+      id: item.id,
+      kind: "sticky",
+      authorId: typeof item.authorId === "string" ? item.authorId : undefined,
+      authorName: item.authorName ? String(item.authorName).slice(0, 64) : undefined,
+      x: finite(item.x),
+      y: finite(item.y),
+      width: Math.min(2000, Math.max(40, finite(item.width))),
+      height: Math.min(2000, Math.max(40, finite(item.height))),
+      color: STICKY_COLORS.includes(item.color as string) ? (item.color as string) : STICKY_COLORS[0],
+      text: String(item.text || "").slice(0, MAX_STICKY_TEXT),
+    };
+  }
+
+  // Annotation validation clamps to the 0..1 surface. Board items live in
+  // unbounded units, so validate the shape first and keep the real values.
+  const annotation = normalizeAnnotation(value as Partial<Annotation>);
+  if (!annotation) return null;
+  const raw = value as Annotation;
+
+  switch (annotation.kind) {
+    case "text":
+      return {
+        ...annotation,
+        size: Math.min(400, Math.max(1, finite((raw as typeof annotation).size))),
+        x: finite((raw as typeof annotation).x),
+        y: finite((raw as typeof annotation).y),
+      };
+    case "shape": {
+      const shape = raw as typeof annotation;
+      return {
+        ...annotation,
+        width: Math.min(200, Math.max(0.5, finite(shape.width))),
+        start: { x: finite(shape.start?.x), y: finite(shape.start?.y) },
+        end: { x: finite(shape.end?.x), y: finite(shape.end?.y) },
+      };
+    }
+    case "stroke": {
+      const stroke = raw as typeof annotation;
+      return {
+        ...annotation,
+        width: Math.min(200, Math.max(0.5, finite(stroke.width))),
+        points: annotation.points.map((point, i) => ({
+          ...point,
+          x: finite(stroke.points[i]?.x),
+          y: finite(stroke.points[i]?.y),
+        })),
+      };
+    }
+  }
+}
+
+/** Split entries into board messages that stay under MAX_ENTRIES_PER_MESSAGE */
+export function batchBoardEntries(entries: BoardEntry[]): BoardEntry[][] {
+  const batches: BoardEntry[][] = [];
+  for (let i = 0; i < entries.length; i += MAX_ENTRIES_PER_MESSAGE) {
+    batches.push(entries.slice(i, i + MAX_ENTRIES_PER_MESSAGE));
+  }
+  return batches;
+}
+
+/** Entries received from a peer, validated one by one */
+export function normalizeBoardEntries(value: unknown): BoardEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.slice(0, MAX_ENTRIES_PER_MESSAGE).flatMap((raw) => {
+    const { id, item } = (raw || {}) as Partial<BoardEntry>;
+    const stamp = normalizeStamp((raw as BoardEntry)?.stamp);
+    const created = normalizeStamp((raw as BoardEntry)?.created);
+    if (typeof id !== "string" || !stamp || !created) return [];
+    if (item === null) return [{ id, item: null, stamp, created }];
+
+    const normalized = normalizeBoardItem(item);
+    return normalized && normalized.id === id ? [{ id, item: normalized, stamp, created }] : [];
+  });
+}
@@ -3,6 +3,18 @@
 interface ImportMetaEnv {
   readonly VITE_TEMPO: string;
   readonly VITE_BASE_PATH: string;
+  readonly VITE_SIGNALING_TRANSPORT?: "broadcast-channel" | "peer-rendezvous" | "websocket";
+  readonly VITE_SIGNALING_URL?: string;
+  readonly VITE_PEER_HOST?: string;
+  readonly VITE_PEER_PORT?: string;
+  readonly VITE_PEER_PATH?: string;
+  readonly VITE_PEER_SECURE?: string;
+  readonly VITE_STUN_URLS?: string;
+  readonly VITE_TURN_URLS?: string;
+  readonly VITE_TURN_USERNAME?: string;
+  readonly VITE_TURN_CREDENTIAL?: string;
+  readonly VITE_TURN_CREDENTIALS_URL?: string;
+  readonly VITE_ICE_TRANSPORT_POLICY?: "all" | "relay";
 }
 
 interface ImportMeta {